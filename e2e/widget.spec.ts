@@ -947,6 +947,7 @@ test.describe('JavaScript API', () => {
     expect(apiMethods).toContain('show');
     expect(apiMethods).toContain('isOpen');
     expect(apiMethods).toContain('isButtonVisible');
+    expect(apiMethods).toContain('identify');
   });
 
   test('bugdrop:ready event fires after initialization', async ({ page }) => {
@@ -1634,3 +1635,83 @@ test.describe('Custom Icon', () => {
     expect(text).toContain('🐛');
   });
 });
+
+test.describe('Duplicate Reports', () => {
+  test('success modal says the report was added to an existing issue', async ({ page }) => {
+    await page.route('**/api/check/**', async (route) => {
+      await route.fulfill({
+        status: 200,
+        contentType: 'application/json',
+        body: JSON.stringify({ installed: true }),
+      });
+    });
+    await page.route('**/api/feedback', async (route) => {
+      await route.fulfill({
+        status: 200,
+        contentType: 'application/json',
+        body: JSON.stringify({
+          success: true,
+          issueNumber: 7,
+          issueUrl: 'https://github.com/test/repo/issues/7',
+          isPublic: true,
+          duplicateOf: 7,
+        }),
+      });
+    });
+
+    await page.goto('/test/index.html');
+
+    const host = page.locator('#bugdrop-host');
+    await host.locator('css=.bd-trigger').click();
+    await host.locator('css=[data-action="continue"]').click();
+
+    await host.locator('css=#title').fill('Checkout button broken');
+    await host.locator('css=#description').fill('Nothing happens on click');
+    await host.locator('css=#submit-btn').click();
+
+    const message = host.locator('css=.bd-success-issue');
+    await expect(message).toContainText('added to existing issue', { timeout: 5000 });
+    await expect(message).toContainText('#7');
+  });
+});
+
+test.describe('Verified Submitters', () => {
+  test('BugDrop.identify() sends the user token with the submission', async ({ page }) => {
+    await page.route('**/api/check/**', async (route) => {
+      await route.fulfill({
+        status: 200,
+        contentType: 'application/json',
+        body: JSON.stringify({ installed: true }),
+      });
+    });
+
+    let sentToken: string | undefined;
+    await page.route('**/api/feedback', async (route) => {
+      sentToken = route.request().postDataJSON().userToken;
+      await route.fulfill({
+        status: 200,
+        contentType: 'application/json',
+        body: JSON.stringify({
+          success: true,
+          issueNumber: 8,
+          issueUrl: 'https://github.com/test/repo/issues/8',
+          isPublic: true,
+        }),
+      });
+    });
+
+    await page.goto('/test/index.html');
+    await page.evaluate(() => window.BugDrop?.identify('signed.user.token'));
+
+    const host = page.locator('#bugdrop-host');
+    await host.locator('css=.bd-trigger').click();
+    await host.locator('css=[data-action="continue"]').click();
+
+    await host.locator('css=#title').fill('Signed-in report');
+    await host.locator('css=#description').fill('Sent with an identity token');
+    await host.locator('css=#submit-btn').click();
+
+    await expect(host.locator('css=.bd-success-issue')).toBeVisible({ timeout: 5000 });
+    expect(sentToken).toBe('signed.user.token');
+  });
+});
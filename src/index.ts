@@ -2,6 +2,8 @@ import { Hono } from 'hono';
 import { logger } from 'hono/logger';
 import type { Env } from './types';
 import api from './routes/api';
+import webhooks from './routes/webhooks';
+import { cleanupScreenshots } from './lib/screenshotCleanup';
 
 const app = new Hono<{ Bindings: Env }>();
 
@@ -30,6 +32,9 @@ app.use('*', async (c, next) => {
 // Request logging
 app.use('*', logger());
 
+// Mount webhook receiver (before the API routes, so their CORS handling doesn't apply)
+app.route('/api/webhooks', webhooks);
+
 // Mount API routes
 app.route('/api', api);
 
@@ -43,4 +48,10 @@ app.get('/widget.js', async (c) => {
   return c.env.ASSETS.fetch(c.req.raw);
 });
 
-export default app;
+export default {
+  fetch: app.fetch,
+  // Cron triggers (wrangler.toml) clean up expired screenshots
+  scheduled(_controller: ScheduledController, env: Env, ctx: ExecutionContext) {
+    ctx.waitUntil(cleanupScreenshots(env));
+  },
+} satisfies ExportedHandler<Env>;
@@ -0,0 +1,263 @@
+import { GITHUB_API, headers } from './github';
+
+// Screenshot branch: uploads are committed to a separate orphan branch through the Contents
+// API, and expired files are removed in bulk through the Git Data API
+
+// File extensions for uploaded screenshot MIME types
+const IMAGE_EXTENSIONS: Record<string, string> = {
+  'image/png': 'png',
+  'image/jpeg': 'jpg',
+  'image/webp': 'webp',
+};
+
+// Screenshot branches known to exist ("owner/repo:branch"), per isolate
+const knownBranches = new Set<string>();
+
+/**
+ * Upload screenshot to the repo's screenshot branch and return the raw URL for embedding in issues
+ * Accepts a base64 data URL (JSON submissions) or a binary file (multipart submissions)
+ * Requires Contents:write permission on the GitHub App
+ */
+export async function uploadScreenshotAsAsset(
+  token: string,
+  owner: string,
+  repo: string,
+  screenshot: string | Blob,
+  branch: string
+): Promise<string> {
+  await ensureBranch(token, owner, repo, branch);
+
+  let content: string;
+  let mimeType: string;
+  if (typeof screenshot === 'string') {
+    // Remove data URL prefix and extract the base64 content
+    mimeType = screenshot.match(/^data:(image\/\w+);base64,/)?.[1] || 'image/png';
+    content = screenshot.replace(/^data:image\/\w+;base64,/, '');
+  } else {
+    mimeType = screenshot.type;
+    content = bytesToBase64(new Uint8Array(await screenshot.arrayBuffer()));
+  }
+
+  // Generate unique filename with timestamp
+  const timestamp = Date.now();
+  const filename = `.bugdrop/screenshots/${timestamp}.${IMAGE_EXTENSIONS[mimeType] || 'png'}`;
+
+  return commitAsset(token, owner, repo, branch, filename, content, `Add BugDrop screenshot ${timestamp}`);
+}
+
+/**
+ * Upload an attached file to the repo's screenshot branch and return its raw URL
+ * The name must already be sanitized; it is kept after the timestamp so links stay readable
+ */
+export async function uploadAttachmentAsAsset(
+  token: string,
+  owner: string,
+  repo: string,
+  file: File,
+  branch: string
+): Promise<string> {
+  await ensureBranch(token, owner, repo, branch);
+
+  const content = bytesToBase64(new Uint8Array(await file.arrayBuffer()));
+  const timestamp = Date.now();
+  const filename = `.bugdrop/attachments/${timestamp}-${file.name}`;
+
+  return commitAsset(token, owner, repo, branch, filename, content, `Add BugDrop attachment ${timestamp}`);
+}
+
+async function commitAsset(
+  token: string,
+  owner: string,
+  repo: string,
+  branch: string,
+  path: string,
+  content: string,
+  message: string
+): Promise<string> {
+  const response = await fetch(
+    `${GITHUB_API}/repos/${owner}/${repo}/contents/${encodeURI(path)}`,
+    {
+      method: 'PUT',
+      headers: headers(token),
+      body: JSON.stringify({ message, content, branch }),
+    }
+  );
+
+  if (!response.ok) {
+    const error = await response.text();
+    throw new Error(`Failed to upload ${path}: ${response.status} - ${error}`);
+  }
+
+  // Link through the branch name (not a commit SHA) so the URL stays stable
+  const data = (await response.json()) as { content: { path: string } };
+  return `https://raw.githubusercontent.com/${owner}/${repo}/${encodeURI(branch)}/${encodeURI(data.content.path)}`;
+}
+
+/**
+ * Create a branch as an orphan (a single commit with no parents) if it doesn't exist yet,
+ * so screenshot commits never touch the default branch's history
+ */
+async function ensureBranch(
+  token: string,
+  owner: string,
+  repo: string,
+  branch: string
+): Promise<void> {
+  const key = `${owner}/${repo}:${branch}`.toLowerCase();
+  if (knownBranches.has(key)) return;
+
+  const refUrl = `${GITHUB_API}/repos/${owner}/${repo}/git/ref/heads/${encodeURIComponent(branch)}`;
+  const existing = await fetch(refUrl, { headers: headers(token) });
+  if (existing.ok) {
+    knownBranches.add(key);
+    return;
+  }
+  if (existing.status !== 404) {
+    throw new Error(`Failed to look up branch ${branch}: ${existing.status}`);
+  }
+
+  const tree = await postGitData<{ sha: string }>(token, owner, repo, 'trees', {
+    tree: [{
+      path: 'README.md',
+      mode: '100644',
+      type: 'blob',
+      content: '# BugDrop screenshots\n\nScreenshots attached to feedback issues. This branch is managed by BugDrop.\n',
+    }],
+  });
+  const commit = await postGitData<{ sha: string }>(token, owner, repo, 'commits', {
+    message: 'Create BugDrop screenshot branch',
+    tree: tree.sha,
+    parents: [],
+  });
+
+  const ref = await fetch(`${GITHUB_API}/repos/${owner}/${repo}/git/refs`, {
+    method: 'POST',
+    headers: headers(token),
+    body: JSON.stringify({ ref: `refs/heads/${branch}`, sha: commit.sha }),
+  });
+  // 422 means a concurrent submission created the branch first
+  if (!ref.ok && ref.status !== 422) {
+    const error = await ref.text();
+    throw new Error(`Failed to create branch ${branch}: ${ref.status} - ${error}`);
+  }
+  knownBranches.add(key);
+}
+
+/**
+ * List the files under a directory of a branch, with the commit and tree they were read from
+ * Returns null when the branch does not exist
+ */
+export async function listBranchFiles(
+  token: string,
+  owner: string,
+  repo: string,
+  branch: string,
+  directory: string
+): Promise<{ commitSha: string; treeSha: string; paths: string[] } | null> {
+  const ref = await fetch(
+    `${GITHUB_API}/repos/${owner}/${repo}/git/ref/heads/${encodeURIComponent(branch)}`,
+    { headers: headers(token) }
+  );
+  if (ref.status === 404) {
+    return null;
+  }
+  if (!ref.ok) {
+    throw new Error(`Failed to look up branch ${branch}: ${ref.status}`);
+  }
+  const commitSha = ((await ref.json()) as { object: { sha: string } }).object.sha;
+
+  const commit = await fetch(
+    `${GITHUB_API}/repos/${owner}/${repo}/git/commits/${commitSha}`,
+    { headers: headers(token) }
+  );
+  if (!commit.ok) {
+    throw new Error(`Failed to read commit ${commitSha}: ${commit.status}`);
+  }
+  const treeSha = ((await commit.json()) as { tree: { sha: string } }).tree.sha;
+
+  const tree = await fetch(
+    `${GITHUB_API}/repos/${owner}/${repo}/git/trees/${treeSha}?recursive=1`,
+    { headers: headers(token) }
+  );
+  if (!tree.ok) {
+    throw new Error(`Failed to read tree ${treeSha}: ${tree.status}`);
+  }
+  const entries = ((await tree.json()) as { tree: Array<{ path: string; type: string }> }).tree;
+
+  return {
+    commitSha,
+    treeSha,
+    paths: entries
+      .filter((entry) => entry.type === 'blob' && entry.path.startsWith(`${directory}/`))
+      .map((entry) => entry.path),
+  };
+}
+
+/**
+ * Delete files from a branch in a single commit on top of `base`
+ */
+export async function deleteBranchFiles(
+  token: string,
+  owner: string,
+  repo: string,
+  branch: string,
+  base: { commitSha: string; treeSha: string },
+  paths: string[],
+  message: string
+): Promise<void> {
+  const tree = await postGitData<{ sha: string }>(token, owner, repo, 'trees', {
+    base_tree: base.treeSha,
+    // A null sha removes the path from the tree
+    tree: paths.map((path) => ({ path, mode: '100644', type: 'blob', sha: null })),
+  });
+  const commit = await postGitData<{ sha: string }>(token, owner, repo, 'commits', {
+    message,
+    tree: tree.sha,
+    parents: [base.commitSha],
+  });
+
+  const response = await fetch(
+    `${GITHUB_API}/repos/${owner}/${repo}/git/refs/heads/${encodeURIComponent(branch)}`,
+    {
+      method: 'PATCH',
+      headers: headers(token),
+      body: JSON.stringify({ sha: commit.sha }),
+    }
+  );
+  if (!response.ok) {
+    const error = await response.text();
+    throw new Error(`Failed to update branch ${branch}: ${response.status} - ${error}`);
+  }
+}
+
+async function postGitData<T>(
+  token: string,
+  owner: string,
+  repo: string,
+  kind: 'trees' | 'commits',
+  body: unknown
+): Promise<T> {
+  const response = await fetch(`${GITHUB_API}/repos/${owner}/${repo}/git/${kind}`, {
+    method: 'POST',
+    headers: headers(token),
+    body: JSON.stringify(body),
+  });
+
+  if (!response.ok) {
+    const error = await response.text();
+    throw new Error(`Failed to create git ${kind}: ${response.status} - ${error}`);
+  }
+  return response.json() as Promise<T>;
+}
+
+/**
+ * Base64 encode binary data for the Contents API
+ */
+function bytesToBase64(bytes: Uint8Array): string {
+  let binary = '';
+  // Encode in chunks to stay under the argument limit of String.fromCharCode
+  for (let i = 0; i < bytes.length; i += 0x8000) {
+    binary += String.fromCharCode(...bytes.subarray(i, i + 0x8000));
+  }
+  return btoa(binary);
+}
@@ -0,0 +1,184 @@
+import type { FeedbackPayload } from '../types';
+
+// Console lines kept in the issue (the most recent ones) and their maximum length
+const MAX_CONSOLE_LINES = 50;
+const MAX_CONSOLE_LINE_LENGTH = 500;
+// Recorded requests kept in the Network table
+const MAX_NETWORK_ROWS = 20;
+// Uncaught errors shown in the Errors section
+const MAX_ERRORS = 10;
+// Interactions listed as steps leading up to the report
+const MAX_BREADCRUMBS = 30;
+// Host-provided context: keys shown in the Context table, and the longest value kept
+const MAX_CONTEXT_KEYS = 50;
+const MAX_CONTEXT_VALUE_LENGTH = 200;
+// Characters each captured section (context, steps, errors, network, console) may take up,
+// so a chatty page can't push the issue past GitHub's 65536-character body limit
+const MAX_SECTION_LENGTH = 8000;
+
+/**
+ * Table of the failed or slow requests recorded by the widget, most recent last
+ */
+export function formatNetworkRequests({ metadata }: FeedbackPayload): string {
+  if (!Array.isArray(metadata.network) || metadata.network.length === 0) {
+    return '';
+  }
+
+  // Table cells can't contain pipes or line breaks, and backticks would end the code span
+  const cell = (value: unknown) => String(value ?? '').replace(/\|/g, '\\|').replace(/[\r\n`]+/g, ' ');
+  const rows = metadata.network.slice(-MAX_NETWORK_ROWS).map((request) => {
+    const status = request.status ? cell(request.status) : 'Failed';
+    const duration = `${Math.round(Number(request.durationMs) || 0)} ms`;
+    const url = truncateText(cell(request.url), MAX_CONSOLE_LINE_LENGTH);
+    return `| ${cell(request.timestamp)} | ${cell(request.method)} | \`${url}\` | ${status} | ${duration} |`;
+  });
+
+  const { kept, omitted } = fitLines(rows, 'last');
+  return [
+    '| Time | Method | URL | Status | Duration |',
+    '|------|--------|-----|--------|----------|',
+    ...kept,
+    ...(omitted > 0 ? ['', `_… ${omitted} earlier requests omitted_`] : []),
+  ].join('\n');
+}
+
+/**
+ * Collapsible block with the most recent console lines, capped so the issue stays readable
+ */
+export function formatConsoleLogs({ consoleLogs }: FeedbackPayload): string {
+  if (!Array.isArray(consoleLogs) || consoleLogs.length === 0) {
+    return '';
+  }
+
+  const shown = consoleLogs.slice(-MAX_CONSOLE_LINES);
+  const lines = shown.map(({ level, timestamp, message }) => {
+    let text = String(message ?? '').replace(/\r?\n/g, '\n    ');
+    if (text.length > MAX_CONSOLE_LINE_LENGTH) {
+      text = `${text.slice(0, MAX_CONSOLE_LINE_LENGTH)}…`;
+    }
+    return `${timestamp} ${String(level).toUpperCase().padEnd(5)} ${text}`;
+  });
+  const { kept } = fitLines(lines, 'last');
+  if (consoleLogs.length > kept.length) {
+    kept.unshift(`… ${consoleLogs.length - kept.length} earlier entries omitted`);
+  }
+
+  const errors = consoleLogs.filter((entry) => entry?.level === 'error').length;
+
+  return [
+    '<details>',
+    `<summary>Console logs (${consoleLogs.length} entries${errors ? `, ${errors} error${errors === 1 ? '' : 's'}` : ''})</summary>`,
+    '',
+    formatCodeBlock(kept),
+    '',
+    '</details>',
+  ].join('\n');
+}
+
+/**
+ * Key/value table of the context the host page set with BugDrop.setContext and setUser
+ */
+export function formatContext({ metadata }: FeedbackPayload): string {
+  const custom = metadata.custom;
+  if (!custom || typeof custom !== 'object' || Array.isArray(custom)) {
+    return '';
+  }
+
+  const cell = (value: unknown) => {
+    const text = String(value).replace(/\|/g, '\\|').replace(/[\r\n`]+/g, ' ');
+    return text.length > MAX_CONTEXT_VALUE_LENGTH ? `${text.slice(0, MAX_CONTEXT_VALUE_LENGTH)}…` : text;
+  };
+  const rows = Object.entries(custom)
+    .filter(([, value]) => ['string', 'number', 'boolean'].includes(typeof value))
+    .slice(0, MAX_CONTEXT_KEYS)
+    .map(([key, value]) => `| ${cell(key)} | \`${cell(value)}\` |`);
+  if (rows.length === 0) {
+    return '';
+  }
+
+  const { kept, omitted } = fitLines(rows, 'first');
+  return [
+    '| Key | Value |',
+    '|-----|-------|',
+    ...kept,
+    ...(omitted > 0 ? ['', `_… ${omitted} more keys omitted_`] : []),
+  ].join('\n');
+}
+
+/**
+ * Recorded interactions as a numbered list of repro steps, oldest first
+ */
+export function formatBreadcrumbs({ breadcrumbs }: FeedbackPayload): string {
+  if (!Array.isArray(breadcrumbs) || breadcrumbs.length === 0) {
+    return '';
+  }
+
+  const code = (value: unknown) =>
+    `\`${truncateText(String(value ?? '').replace(/[`\r\n]+/g, ' '), MAX_CONTEXT_VALUE_LENGTH)}\``;
+  const steps = breadcrumbs.slice(-MAX_BREADCRUMBS).map(({ type, detail, timestamp }, index) => {
+    const time = String(timestamp ?? '').slice(11, 19);
+    const step = type === 'click' ? `Clicked ${code(detail)}`
+      : type === 'focus' ? `Focused ${code(detail)}`
+      : type === 'navigation' ? `Navigated to ${code(detail)}`
+      : detail === 'hidden' ? 'Switched away from the page' : 'Returned to the page';
+    return `${index + 1}. ${time ? `\`${time}\` ` : ''}${step}`;
+  });
+
+  const { kept, omitted } = fitLines(steps, 'last');
+  return [...(omitted > 0 ? [`_… ${omitted} earlier steps omitted_`, ''] : []), ...kept].join('\n');
+}
+
+/**
+ * Uncaught errors recorded by the widget, each with its stack or source location
+ */
+export function formatErrors({ metadata }: FeedbackPayload): string {
+  if (!Array.isArray(metadata.errors) || metadata.errors.length === 0) {
+    return '';
+  }
+
+  const lines = metadata.errors.slice(-MAX_ERRORS).flatMap(({ type, message, stack, source, timestamp }) => {
+    const label = type === 'unhandledrejection' ? 'Unhandled rejection' : 'Uncaught';
+    const header = `${timestamp} ${label}: ${truncateText(String(message ?? ''), MAX_CONSOLE_LINE_LENGTH)}`;
+    // Stacks usually repeat the message on their first line
+    const frames = stack ? String(stack).split('\n').filter((line) => /^\s*at\s|@/.test(line)) : [];
+    const details = frames.length > 0
+      ? frames.map((frame) => `    ${truncateText(frame.trim(), MAX_CONSOLE_LINE_LENGTH)}`)
+      : source ? [`    at ${truncateText(String(source), MAX_CONSOLE_LINE_LENGTH)}`] : [];
+    return [header, ...details];
+  });
+
+  const { kept, omitted } = fitLines(lines, 'last');
+  if (omitted > 0) {
+    kept.unshift(`… ${omitted} earlier lines omitted`);
+  }
+  return formatCodeBlock(kept);
+}
+
+/**
+ * The most recent (or first) lines that fit in a section's share of the body, and how many were left out
+ */
+function fitLines(lines: string[], keep: 'first' | 'last'): { kept: string[]; omitted: number } {
+  const ordered = keep === 'last' ? [...lines].reverse() : lines;
+  const kept: string[] = [];
+  let length = 0;
+  for (const line of ordered) {
+    length += line.length + 1;
+    if (length > MAX_SECTION_LENGTH) break;
+    kept.push(line);
+  }
+  if (keep === 'last') kept.reverse();
+  return { kept, omitted: lines.length - kept.length };
+}
+
+export function truncateText(text: string, maxLength: number): string {
+  return text.length > maxLength ? `${text.slice(0, maxLength)}…` : text;
+}
+
+/**
+ * Fenced code block with a fence longer than any backtick run inside, so the content can't close it early
+ */
+function formatCodeBlock(lines: string[]): string {
+  const longestRun = Math.max(0, ...lines.join('\n').match(/`+/g)?.map((run) => run.length) ?? []);
+  const fence = '`'.repeat(Math.max(3, longestRun + 1));
+  return [fence, ...lines, fence].join('\n');
+}
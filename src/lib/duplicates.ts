@@ -0,0 +1,77 @@
+import type { FeedbackPayload, GitHubIssue } from '../types';
+import { listOpenIssues, addIssueComment } from './github';
+
+// Hidden marker embedded in issue bodies so repeat reports can be matched later
+const MARKER_PREFIX = '<!-- bugdrop:fingerprint=';
+
+/**
+ * Fingerprint a report by its normalized title, page URL and element selector
+ */
+export async function getFeedbackFingerprint(payload: FeedbackPayload): Promise<string> {
+  const normalizedTitle = payload.title
+    .toLowerCase()
+    .replace(/[^\p{L}\p{N}\s]/gu, '')
+    .replace(/\s+/g, ' ')
+    .trim();
+  const key = [
+    normalizedTitle,
+    payload.metadata.url,
+    payload.metadata.elementSelector || '',
+  ].join('\n');
+
+  const digest = await crypto.subtle.digest('SHA-256', new TextEncoder().encode(key));
+  return [...new Uint8Array(digest).slice(0, 12)]
+    .map((byte) => byte.toString(16).padStart(2, '0'))
+    .join('');
+}
+
+export function fingerprintMarker(fingerprint: string): string {
+  return `${MARKER_PREFIX}${fingerprint} -->`;
+}
+
+/**
+ * Add a repeat report as a comment on the open issue with the same fingerprint
+ * Returns that issue, or null when there is none or it couldn't be reached, in which
+ * case the caller opens a new issue instead
+ */
+export async function commentOnDuplicate(
+  token: string,
+  owner: string,
+  repo: string,
+  fingerprint: string,
+  body: string
+): Promise<GitHubIssue | null> {
+  let duplicate: GitHubIssue | null;
+  try {
+    duplicate = await findDuplicateIssue(token, owner, repo, fingerprint);
+  } catch (error) {
+    console.error('Failed to check for duplicate issues:', error);
+    return null;
+  }
+  if (!duplicate) {
+    return null;
+  }
+
+  try {
+    await addIssueComment(token, owner, repo, duplicate.number, `### Another report of this issue\n\n${body}`);
+    return duplicate;
+  } catch (error) {
+    // e.g. the issue was locked or deleted since the search
+    console.error('Failed to comment on duplicate issue:', error);
+    return null;
+  }
+}
+
+/**
+ * Find an open BugDrop issue carrying the same fingerprint
+ */
+async function findDuplicateIssue(
+  token: string,
+  owner: string,
+  repo: string,
+  fingerprint: string
+): Promise<GitHubIssue | null> {
+  const marker = fingerprintMarker(fingerprint);
+  const issues = await listOpenIssues(token, owner, repo, 'bugdrop');
+  return issues.find((issue) => issue.body?.includes(marker)) || null;
+}
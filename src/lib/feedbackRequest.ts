@@ -0,0 +1,307 @@
+import type { Env, FeedbackPayload, FeedbackAttachment } from '../types';
+
+// Image types accepted as multipart screenshot parts
+const SCREENSHOT_TYPES = ['image/png', 'image/jpeg', 'image/webp'];
+
+// Attachment types, keyed by the file extensions browsers often leave untyped
+const ATTACHMENT_TYPES: Record<string, string> = {
+  txt: 'text/plain',
+  log: 'text/plain',
+  csv: 'text/csv',
+  json: 'application/json',
+  har: 'application/json',
+  pdf: 'application/pdf',
+  zip: 'application/zip',
+  png: 'image/png',
+  jpg: 'image/jpeg',
+  jpeg: 'image/jpeg',
+  webp: 'image/webp',
+  gif: 'image/gif',
+};
+
+// Attachment limits (the widget enforces the same ones before uploading)
+const MAX_ATTACHMENTS = 5;
+const MAX_ATTACHMENT_MB = 5;
+const MAX_TOTAL_ATTACHMENTS_MB = 10;
+
+// Gzipped HTML snapshot of the page (data-capture-dom), stored like an attachment
+const MAX_DOM_SNAPSHOT_MB = 5;
+export const DOM_SNAPSHOT_NAME = 'dom-snapshot.html.gz';
+
+// Headroom for the JSON payload part and multipart boundaries on top of the image limits
+const PAYLOAD_OVERHEAD_BYTES = 1024 * 1024;
+
+/**
+ * Error raised while reading a feedback submission, carrying the HTTP status to respond with
+ */
+export class FeedbackRequestError extends Error {
+  constructor(message: string, readonly status: 400 | 413 = 400) {
+    super(message);
+    this.name = 'FeedbackRequestError';
+  }
+}
+
+export interface FeedbackRequest {
+  payload: FeedbackPayload;
+  // base64 data URL (JSON body) or uploaded file (multipart body)
+  screenshot?: string | Blob;
+  // Annotated copy of the screenshot, in the same form
+  annotations?: string | Blob;
+  // Attached files, with sanitized names and normalized types
+  attachments: File[];
+  // Gzipped DOM snapshot, named DOM_SNAPSHOT_NAME
+  domSnapshot?: File;
+}
+
+// Parsed submissions, so middleware and the route handler share one read of the body
+const parsedRequests = new WeakMap<Request, Promise<FeedbackRequest>>();
+
+export function isMultipart(request: Request): boolean {
+  return (request.headers.get('content-type') || '').startsWith('multipart/form-data');
+}
+
+/**
+ * Read a feedback submission from either a JSON body (screenshot and annotated
+ * screenshot as base64 data URLs) or a multipart/form-data body (JSON `payload`
+ * part plus binary `screenshot` and `annotations` file parts). Attachments are
+ * data URLs in `payload.attachments` or repeated `attachment` file parts, and the
+ * DOM snapshot is a data URL in `payload.domSnapshot` or a `domSnapshot` file part.
+ *
+ * Multipart bodies are size-limited while streaming, so oversized uploads are
+ * rejected without buffering the whole request.
+ */
+export function readFeedbackRequest(request: Request, env: Env): Promise<FeedbackRequest> {
+  let parsed = parsedRequests.get(request);
+  if (!parsed) {
+    const maxScreenshotMB = parseInt(env.MAX_SCREENSHOT_SIZE_MB || '5', 10);
+    parsed = isMultipart(request)
+      ? readMultipart(request, maxScreenshotMB)
+      : readJson(request, maxScreenshotMB);
+    parsedRequests.set(request, parsed);
+  }
+  return parsed;
+}
+
+async function readJson(request: Request, maxScreenshotMB: number): Promise<FeedbackRequest> {
+  let payload: FeedbackPayload;
+  try {
+    payload = await request.json();
+  } catch {
+    throw new FeedbackRequestError('Invalid JSON');
+  }
+
+  checkCapturedLists(payload);
+  if (payload.attachments !== undefined && !Array.isArray(payload.attachments)) {
+    throw new FeedbackRequestError('Attachments must be an array');
+  }
+
+  return {
+    payload,
+    screenshot: readDataUrlImage(payload.screenshot, maxScreenshotMB),
+    annotations: readDataUrlImage(payload.annotations, maxScreenshotMB),
+    attachments: readAttachments((payload.attachments || []).map(dataUrlToFile)),
+    domSnapshot: payload.domSnapshot
+      ? await readDomSnapshot(dataUrlToFile({ name: DOM_SNAPSHOT_NAME, data: payload.domSnapshot }))
+      : undefined,
+  };
+}
+
+/**
+ * Check that the captured console lines, steps, requests and errors are lists of objects,
+ * since the issue body reads their fields (and redaction can be turned off)
+ */
+function checkCapturedLists(payload: FeedbackPayload): void {
+  if (!payload || typeof payload !== 'object') {
+    throw new FeedbackRequestError('Invalid payload');
+  }
+
+  const metadata = payload.metadata && typeof payload.metadata === 'object' ? payload.metadata : undefined;
+  const lists: Array<[string, unknown]> = [
+    ['consoleLogs', payload.consoleLogs],
+    ['breadcrumbs', payload.breadcrumbs],
+    ['metadata.network', metadata?.network],
+    ['metadata.errors', metadata?.errors],
+  ];
+  for (const [name, list] of lists) {
+    if (list !== undefined &&
+        (!Array.isArray(list) || !list.every((entry) => entry && typeof entry === 'object' && !Array.isArray(entry)))) {
+      throw new FeedbackRequestError(`${name} must be an array of objects`);
+    }
+  }
+}
+
+function dataUrlToFile(attachment: FeedbackAttachment): File {
+  const match = typeof attachment?.data === 'string' && attachment.data.match(/^data:([^;,]*)(;base64)?,(.*)$/s);
+  if (!match) {
+    throw new FeedbackRequestError('Attachments must be data URLs');
+  }
+
+  const [, type, base64, data] = match;
+  let bytes: Uint8Array;
+  try {
+    bytes = base64
+      ? Uint8Array.from(atob(data), (char) => char.charCodeAt(0))
+      : new TextEncoder().encode(decodeURIComponent(data));
+  } catch {
+    throw new FeedbackRequestError('Invalid attachment data');
+  }
+  return new File([bytes], String(attachment.name || 'attachment'), { type });
+}
+
+function readDataUrlImage(image: string | undefined, maxScreenshotMB: number): string | undefined {
+  if (!image) {
+    return undefined;
+  }
+  assertScreenshotSize(image, maxScreenshotMB);
+  return image.startsWith('data:image/') ? image : undefined;
+}
+
+async function readMultipart(request: Request, maxScreenshotMB: number): Promise<FeedbackRequest> {
+  // Room for the screenshot, its annotated copy, attachments and the DOM snapshot
+  const maxBytes = (2 * maxScreenshotMB + MAX_TOTAL_ATTACHMENTS_MB + MAX_DOM_SNAPSHOT_MB) * 1024 * 1024 +
+    PAYLOAD_OVERHEAD_BYTES;
+  const tooLarge = () => new FeedbackRequestError(
+    `Request too large: exceeds ${(maxBytes / (1024 * 1024)).toFixed(0)}MB limit`,
+    413
+  );
+
+  // Reject up front when the client declares an oversized body
+  const declaredLength = parseInt(request.headers.get('content-length') || '0', 10);
+  if (declaredLength > maxBytes || !request.body) {
+    throw declaredLength > maxBytes ? tooLarge() : new FeedbackRequestError('Missing request body');
+  }
+
+  let received = 0;
+  let exceeded = false;
+  const limited = request.body.pipeThrough(new TransformStream<Uint8Array, Uint8Array>({
+    transform(chunk, controller) {
+      received += chunk.byteLength;
+      if (received > maxBytes) {
+        exceeded = true;
+        controller.error(tooLarge());
+        return;
+      }
+      controller.enqueue(chunk);
+    },
+  }));
+
+  let form: FormData;
+  try {
+    form = await new Response(limited, {
+      headers: { 'Content-Type': request.headers.get('content-type') || '' },
+    }).formData();
+  } catch {
+    throw exceeded ? tooLarge() : new FeedbackRequestError('Invalid multipart body');
+  }
+
+  // File parts are parsed as File objects at our compatibility date, despite the base typings
+  const payloadPart = form.get('payload') as File | string | null;
+  if (payloadPart === null) {
+    throw new FeedbackRequestError('Missing payload part');
+  }
+
+  let payload: FeedbackPayload;
+  try {
+    payload = JSON.parse(typeof payloadPart === 'string' ? payloadPart : await payloadPart.text());
+  } catch {
+    throw new FeedbackRequestError('Invalid JSON in payload part');
+  }
+  checkCapturedLists(payload);
+
+  const snapshotPart = form.get('domSnapshot') as File | string | null;
+  return {
+    payload,
+    screenshot: readImagePart(form, 'screenshot', maxScreenshotMB),
+    annotations: readImagePart(form, 'annotations', maxScreenshotMB),
+    // File parts are parsed as File objects at our compatibility date, despite the base typings
+    attachments: readAttachments(
+      (form.getAll('attachment') as Array<File | string>).filter((part) => typeof part !== 'string')
+    ),
+    domSnapshot: snapshotPart instanceof File ? await readDomSnapshot(snapshotPart) : undefined,
+  };
+}
+
+/**
+ * Check that a DOM snapshot is gzip data within the size limit
+ */
+async function readDomSnapshot(file: File): Promise<File> {
+  if (file.size > MAX_DOM_SNAPSHOT_MB * 1024 * 1024) {
+    throw new FeedbackRequestError(`DOM snapshot too large: exceeds ${MAX_DOM_SNAPSHOT_MB}MB limit`);
+  }
+
+  const magic = new Uint8Array(await file.slice(0, 2).arrayBuffer());
+  if (magic[0] !== 0x1f || magic[1] !== 0x8b) {
+    throw new FeedbackRequestError('DOM snapshot must be gzip-compressed');
+  }
+  return new File([file], DOM_SNAPSHOT_NAME, { type: 'application/gzip' });
+}
+
+/**
+ * Check attachments against the count, size and type limits, and give each a safe
+ * file name and a type from the allowlist
+ */
+function readAttachments(files: File[]): File[] {
+  if (files.length > MAX_ATTACHMENTS) {
+    throw new FeedbackRequestError(`Too many attachments: at most ${MAX_ATTACHMENTS} files are allowed`);
+  }
+
+  let totalBytes = 0;
+  return files.map((file) => {
+    const name = sanitizeFileName(file.name);
+    const extension = name.includes('.') ? name.split('.').pop()!.toLowerCase() : '';
+    const allowed = Object.values(ATTACHMENT_TYPES);
+    const type = allowed.includes(file.type) ? file.type : ATTACHMENT_TYPES[extension];
+    if (!type) {
+      throw new FeedbackRequestError(`Unsupported attachment type: ${name}`);
+    }
+
+    if (file.size > MAX_ATTACHMENT_MB * 1024 * 1024) {
+      throw new FeedbackRequestError(`Attachment too large: ${name} exceeds ${MAX_ATTACHMENT_MB}MB limit`);
+    }
+    totalBytes += file.size;
+    if (totalBytes > MAX_TOTAL_ATTACHMENTS_MB * 1024 * 1024) {
+      throw new FeedbackRequestError(`Attachments too large: more than ${MAX_TOTAL_ATTACHMENTS_MB}MB in total`);
+    }
+
+    return new File([file], name, { type });
+  });
+}
+
+/**
+ * Keep the last path segment and only characters that are safe in paths, URLs and markdown
+ */
+function sanitizeFileName(name: string): string {
+  const base = name.split(/[\\/]/).pop() || '';
+  const safe = base.replace(/[^\w.-]+/g, '_').replace(/^[._]+/, '').slice(-100);
+  return safe || 'attachment';
+}
+
+function readImagePart(form: FormData, name: string, maxScreenshotMB: number): File | undefined {
+  const image = form.get(name) as File | string | null;
+  if (image === null || typeof image === 'string') {
+    return undefined;
+  }
+
+  if (!SCREENSHOT_TYPES.includes(image.type)) {
+    throw new FeedbackRequestError(
+      `Unsupported screenshot type: ${image.type || 'unknown'}. Expected PNG, JPEG or WebP`
+    );
+  }
+  assertScreenshotSize(image, maxScreenshotMB);
+  return image;
+}
+
+/**
+ * Throw when a screenshot (data URL or file) exceeds the size limit
+ */
+export function assertScreenshotSize(screenshot: string | Blob, maxScreenshotMB: number): void {
+  const sizeBytes = typeof screenshot === 'string'
+    ? (screenshot.length * 3) / 4 // Base64 to bytes
+    : screenshot.size;
+  const sizeMB = sizeBytes / (1024 * 1024);
+  if (sizeMB > maxScreenshotMB) {
+    throw new FeedbackRequestError(
+      `Screenshot too large: ${sizeMB.toFixed(1)}MB exceeds ${maxScreenshotMB}MB limit`
+    );
+  }
+}
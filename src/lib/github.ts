@@ -1,9 +1,16 @@
 import { generateGitHubAppJWT } from './jwt';
-import type { Env, GitHubIssue } from '../types';
+import {
+  getCachedInstallationId,
+  cacheInstallationId,
+  getCachedToken,
+  cacheToken,
+  forgetInstallation,
+} from './installationCache';
+import type { Env, GitHubIssue, GitHubIssueDetails, GitHubComment } from '../types';
 
-const GITHUB_API = 'https://api.github.com';
+export const GITHUB_API = 'https://api.github.com';
 
-const headers = (token: string) => ({
+export const headers = (token: string) => ({
   Authorization: `Bearer ${token}`,
   Accept: 'application/vnd.github+json',
   'Content-Type': 'application/json',
@@ -11,6 +18,23 @@ const headers = (token: string) => ({
   'X-GitHub-Api-Version': '2022-11-28',
 });
 
+// App JWTs are valid for 10 minutes; each isolate reuses one for half of that
+const APP_JWT_TTL_MS = 5 * 60 * 1000;
+let appJwt: { value: string; expiresAt: number } | null = null;
+
+/**
+ * Get a JWT authenticating as the GitHub App itself
+ */
+async function getAppJWT(env: Env): Promise<string> {
+  if (!appJwt || appJwt.expiresAt <= Date.now()) {
+    appJwt = {
+      value: await generateGitHubAppJWT(env.GITHUB_APP_ID, env.GITHUB_PRIVATE_KEY),
+      expiresAt: Date.now() + APP_JWT_TTL_MS,
+    };
+  }
+  return appJwt.value;
+}
+
 /**
  * Get installation ID for a repository
  */
@@ -19,7 +43,10 @@ async function getInstallationId(
   owner: string,
   repo: string
 ): Promise<number | null> {
-  const jwt = await generateGitHubAppJWT(env.GITHUB_APP_ID, env.GITHUB_PRIVATE_KEY);
+  const cachedId = await getCachedInstallationId(env, owner, repo);
+  if (cachedId) return cachedId;
+
+  const jwt = await getAppJWT(env);
 
   const response = await fetch(
     `${GITHUB_API}/repos/${owner}/${repo}/installation`,
@@ -32,11 +59,13 @@ async function getInstallationId(
   }
 
   const data = await response.json() as { id: number };
+  await cacheInstallationId(env, owner, repo, data.id);
   return data.id;
 }
 
 /**
  * Get installation access token (scoped to installed repos)
+ * IDs and tokens are cached (see installationCache.ts), so most calls make no GitHub requests
  */
 export async function getInstallationToken(
   env: Env,
@@ -46,7 +75,22 @@ export async function getInstallationToken(
   const installationId = await getInstallationId(env, owner, repo);
   if (!installationId) return null;
 
-  const jwt = await generateGitHubAppJWT(env.GITHUB_APP_ID, env.GITHUB_PRIVATE_KEY);
+  const token = await getTokenForInstallation(env, installationId);
+  if (!token) {
+    // The cached installation may have been removed since it was looked up
+    await forgetInstallation(env, installationId, [`${owner}/${repo}`]);
+  }
+  return token;
+}
+
+/**
+ * Get a (cached) access token for an installation, or null if it can't be minted
+ */
+async function getTokenForInstallation(env: Env, installationId: number): Promise<string | null> {
+  const cachedToken = await getCachedToken(env, installationId);
+  if (cachedToken) return cachedToken;
+
+  const jwt = await getAppJWT(env);
 
   const response = await fetch(
     `${GITHUB_API}/app/installations/${installationId}/access_tokens`,
@@ -61,10 +105,77 @@ export async function getInstallationToken(
     return null;
   }
 
-  const data = await response.json() as { token: string };
+  const data = await response.json() as { token: string; expires_at: string };
+  await cacheToken(env, installationId, data.token, data.expires_at);
   return data.token;
 }
 
+/**
+ * List the IDs of every installation of the app
+ */
+export async function listInstallationIds(env: Env): Promise<number[]> {
+  const jwt = await getAppJWT(env);
+  const installations = await fetchAllPages<{ id: number }>(jwt, '/app/installations');
+  return installations.map((installation) => installation.id);
+}
+
+/**
+ * List the repositories of one installation, with its installation token
+ */
+export async function listInstallationRepos(
+  env: Env,
+  installationId: number
+): Promise<Array<{ owner: string; repo: string; token: string }>> {
+  const token = await getTokenForInstallation(env, installationId);
+  if (!token) {
+    return [];
+  }
+
+  const installed = await fetchAllPages<{ name: string; owner: { login: string } }>(
+    token,
+    '/installation/repositories',
+    'repositories'
+  );
+  const repos: Array<{ owner: string; repo: string; token: string }> = [];
+  for (const { name, owner } of installed) {
+    await cacheInstallationId(env, owner.login, name, installationId);
+    repos.push({ owner: owner.login, repo: name, token });
+  }
+  return repos;
+}
+
+/**
+ * Fetch every page (100 items each) of a GitHub list endpoint, up to maxPages
+ * Some endpoints wrap the list in an object; `key` names the list field
+ */
+async function fetchAllPages<T>(
+  token: string,
+  path: string,
+  key?: string,
+  maxPages = Infinity
+): Promise<T[]> {
+  const items: T[] = [];
+  const separator = path.includes('?') ? '&' : '?';
+  for (let page = 1; page <= maxPages; page++) {
+    const response = await fetch(
+      `${GITHUB_API}${path}${separator}per_page=100&page=${page}`,
+      { headers: headers(token) }
+    );
+    if (!response.ok) {
+      const error = await response.text();
+      throw new Error(`Failed to list ${path}: ${response.status} - ${error}`);
+    }
+
+    const data = await response.json() as T[] | Record<string, T[]>;
+    const pageItems = key ? (data as Record<string, T[]>)[key] : data as T[];
+    items.push(...pageItems);
+    if (pageItems.length < 100) {
+      break;
+    }
+  }
+  return items;
+}
+
 /**
  * Create a GitHub issue
  */
@@ -74,14 +185,15 @@ export async function createIssue(
   repo: string,
   title: string,
   body: string,
-  labels: string[] = ['feedback']
+  labels: string[] = ['feedback'],
+  assignees: string[] = []
 ): Promise<GitHubIssue> {
   const response = await fetch(
     `${GITHUB_API}/repos/${owner}/${repo}/issues`,
     {
       method: 'POST',
       headers: headers(token),
-      body: JSON.stringify({ title, body, labels }),
+      body: JSON.stringify({ title, body, labels, assignees }),
     }
   );
 
@@ -94,64 +206,190 @@ export async function createIssue(
 }
 
 /**
- * Check if a repository is public
+ * Read a file from the repository's default branch
+ * Returns null when the file does not exist
  */
-export async function isRepoPublic(
+export async function getRepoFile(
   token: string,
   owner: string,
-  repo: string
-): Promise<boolean> {
-  try {
-    const response = await fetch(
-      `${GITHUB_API}/repos/${owner}/${repo}`,
-      { headers: headers(token) }
-    );
-
-    if (!response.ok) {
-      return false;
+  repo: string,
+  path: string
+): Promise<string | null> {
+  const response = await fetch(
+    `${GITHUB_API}/repos/${owner}/${repo}/contents/${path}`,
+    {
+      headers: {
+        ...headers(token),
+        Accept: 'application/vnd.github.raw+json',
+      },
     }
+  );
 
-    const data = await response.json() as { private: boolean };
-    return !data.private;
-  } catch {
-    return false;
+  if (response.status === 404) {
+    return null;
+  }
+
+  if (!response.ok) {
+    throw new Error(`Failed to read ${path}: ${response.status}`);
   }
+
+  return response.text();
 }
 
 /**
- * Upload screenshot to repo and return the raw URL for embedding in issues
- * Requires Contents:write permission on the GitHub App
+ * List closed issues with a label updated since a time, oldest first (up to maxPages)
  */
-export async function uploadScreenshotAsAsset(
+export function listClosedIssues(
   token: string,
   owner: string,
   repo: string,
-  base64DataUrl: string
-): Promise<string> {
-  // Remove data URL prefix and extract the base64 content
-  const content = base64DataUrl.replace(/^data:image\/\w+;base64,/, '');
+  label: string,
+  since: string,
+  maxPages: number
+): Promise<GitHubIssue[]> {
+  const params = new URLSearchParams({ state: 'closed', labels: label, since, sort: 'created', direction: 'asc' });
+  return fetchAllPages<GitHubIssue>(token, `/repos/${owner}/${repo}/issues?${params}`, undefined, maxPages);
+}
 
-  // Generate unique filename with timestamp
-  const timestamp = Date.now();
-  const filename = `.bugdrop/screenshots/${timestamp}.png`;
+/**
+ * List comments on any issue of a repository updated since a time, oldest first (up to maxPages)
+ */
+export function listRepoComments(
+  token: string,
+  owner: string,
+  repo: string,
+  since: string,
+  maxPages: number
+): Promise<Array<{ body: string; issue_url: string }>> {
+  const params = new URLSearchParams({ since, sort: 'created', direction: 'asc' });
+  return fetchAllPages(token, `/repos/${owner}/${repo}/issues/comments?${params}`, undefined, maxPages);
+}
 
+/**
+ * List open issues with a label, newest first (first page only)
+ */
+export async function listOpenIssues(
+  token: string,
+  owner: string,
+  repo: string,
+  label: string
+): Promise<GitHubIssue[]> {
+  const params = new URLSearchParams({
+    state: 'open',
+    labels: label,
+    sort: 'created',
+    direction: 'desc',
+    per_page: '100',
+  });
+
+  const response = await fetch(
+    `${GITHUB_API}/repos/${owner}/${repo}/issues?${params}`,
+    { headers: headers(token) }
+  );
+
+  if (!response.ok) {
+    const error = await response.text();
+    throw new Error(`Failed to list issues: ${response.status} - ${error}`);
+  }
+
+  return response.json();
+}
+
+/**
+ * Get a single issue
+ * Returns null when the issue does not exist
+ */
+export async function getIssue(
+  token: string,
+  owner: string,
+  repo: string,
+  issueNumber: number
+): Promise<GitHubIssueDetails | null> {
+  const response = await fetch(
+    `${GITHUB_API}/repos/${owner}/${repo}/issues/${issueNumber}`,
+    { headers: headers(token) }
+  );
+
+  if (response.status === 404 || response.status === 410) {
+    return null;
+  }
+
+  if (!response.ok) {
+    const error = await response.text();
+    throw new Error(`Failed to get issue: ${response.status} - ${error}`);
+  }
+
+  return response.json();
+}
+
+/**
+ * List comments on an issue, oldest first (first 100)
+ */
+export async function listIssueComments(
+  token: string,
+  owner: string,
+  repo: string,
+  issueNumber: number
+): Promise<GitHubComment[]> {
   const response = await fetch(
-    `${GITHUB_API}/repos/${owner}/${repo}/contents/${filename}`,
+    `${GITHUB_API}/repos/${owner}/${repo}/issues/${issueNumber}/comments?per_page=100`,
+    { headers: headers(token) }
+  );
+
+  if (!response.ok) {
+    const error = await response.text();
+    throw new Error(`Failed to list comments: ${response.status} - ${error}`);
+  }
+
+  return response.json();
+}
+
+/**
+ * Add a comment to an existing issue
+ */
+export async function addIssueComment(
+  token: string,
+  owner: string,
+  repo: string,
+  issueNumber: number,
+  body: string
+): Promise<void> {
+  const response = await fetch(
+    `${GITHUB_API}/repos/${owner}/${repo}/issues/${issueNumber}/comments`,
     {
-      method: 'PUT',
+      method: 'POST',
       headers: headers(token),
-      body: JSON.stringify({
-        message: `Add BugDrop screenshot ${timestamp}`,
-        content: content,
-      }),
+      body: JSON.stringify({ body }),
     }
   );
 
   if (!response.ok) {
     const error = await response.text();
-    throw new Error(`Failed to upload screenshot: ${response.status} - ${error}`);
+    throw new Error(`Failed to comment on issue: ${response.status} - ${error}`);
   }
+}
 
-  const data = (await response.json()) as { content: { download_url: string } };
-  return data.content.download_url;
+/**
+ * Check if a repository is public
+ */
+export async function isRepoPublic(
+  token: string,
+  owner: string,
+  repo: string
+): Promise<boolean> {
+  try {
+    const response = await fetch(
+      `${GITHUB_API}/repos/${owner}/${repo}`,
+      { headers: headers(token) }
+    );
+
+    if (!response.ok) {
+      return false;
+    }
+
+    const data = await response.json() as { private: boolean };
+    return !data.private;
+  } catch {
+    return false;
+  }
 }
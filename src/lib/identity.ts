@@ -0,0 +1,69 @@
+import type { Env, RepoConfig, VerifiedSubmitter } from '../types';
+import { verifyToken, verifyRS256Token } from './jwt';
+
+// Audience identity tokens must carry, so other JWTs the host signs with the same key
+// (session tokens and the like) can't be replayed as a BugDrop identity
+const TOKEN_AUDIENCE = 'bugdrop';
+// Longest lifetime (exp - iat) accepted, in seconds
+const MAX_TOKEN_LIFETIME = 60 * 60;
+// Allowed clock difference between the host and the Worker, in seconds
+const CLOCK_SKEW = 60;
+
+/**
+ * Verify a host-signed user token against the repository's key
+ * RS256 tokens use identityPublicKey from .bugdrop.yml; HS256 tokens use the shared
+ * secret the operator stores under "identity-secret:owner/repo" in the STATE namespace
+ * (never in the repo, where it would be readable)
+ * Tokens need sub, iat, exp (at most an hour after iat) and aud: "bugdrop"
+ * Returns null when the token is invalid, expired or the repo has no key
+ */
+export async function verifySubmitterToken(
+  env: Env,
+  owner: string,
+  repo: string,
+  config: RepoConfig,
+  token: string
+): Promise<VerifiedSubmitter | null> {
+  let claims: Record<string, unknown> | null = null;
+
+  if (config.identityPublicKey) {
+    claims = await verifyRS256Token(token, config.identityPublicKey);
+  }
+
+  if (!claims) {
+    const secret = await getIdentitySecret(env, owner, repo);
+    if (secret) {
+      claims = await verifyToken(token, secret);
+    }
+  }
+
+  // Tokens must identify the user, be meant for BugDrop and be short-lived
+  if (!claims || typeof claims.sub !== 'string' || !claims.sub || !hasAudience(claims.aud)) {
+    return null;
+  }
+  const { iat, exp } = claims;
+  if (typeof iat !== 'number' || typeof exp !== 'number' ||
+      iat > Date.now() / 1000 + CLOCK_SKEW || exp - iat > MAX_TOKEN_LIFETIME) {
+    return null;
+  }
+
+  return {
+    id: claims.sub,
+    name: typeof claims.name === 'string' ? claims.name : undefined,
+    email: typeof claims.email === 'string' ? claims.email : undefined,
+  };
+}
+
+function hasAudience(aud: unknown): boolean {
+  return aud === TOKEN_AUDIENCE || (Array.isArray(aud) && aud.includes(TOKEN_AUDIENCE));
+}
+
+async function getIdentitySecret(env: Env, owner: string, repo: string): Promise<string | null> {
+  if (!env.STATE) return null;
+  try {
+    return await env.STATE.get(`identity-secret:${owner}/${repo}`.toLowerCase());
+  } catch (error) {
+    console.error(`[Identity] Failed to read secret for ${owner}/${repo}:`, error);
+    return null;
+  }
+}
@@ -0,0 +1,148 @@
+import type { Env } from '../types';
+
+// Installation IDs rarely change, and installation webhooks clear them when they do
+const INSTALLATION_TTL_SECONDS = 24 * 60 * 60;
+
+// Installation tokens last an hour; stop handing them out a few minutes early
+// so a token never expires partway through a submission
+const TOKEN_REFRESH_MARGIN_MS = 5 * 60 * 1000;
+
+// KV rejects expirations shorter than a minute
+const MIN_KV_TTL_SECONDS = 60;
+
+interface CachedValue<T> {
+  value: T;
+  expiresAt: number; // epoch ms
+}
+
+// Per-isolate layer in front of the STATE KV namespace (and the only layer without it)
+const installationIds = new Map<string, CachedValue<number>>();
+const tokens = new Map<number, CachedValue<string>>();
+
+/**
+ * Look up a repo's cached installation ID
+ */
+export async function getCachedInstallationId(
+  env: Env,
+  owner: string,
+  repo: string
+): Promise<number | null> {
+  const key = repoKey(owner, repo);
+  return readCached(env, installationIds, key, `installation:${key}`);
+}
+
+/**
+ * Remember which installation a repo belongs to
+ */
+export async function cacheInstallationId(
+  env: Env,
+  owner: string,
+  repo: string,
+  installationId: number
+): Promise<void> {
+  const key = repoKey(owner, repo);
+  const entry = { value: installationId, expiresAt: Date.now() + INSTALLATION_TTL_SECONDS * 1000 };
+  installationIds.set(key, entry);
+  await writeKv(env, `installation:${key}`, entry);
+}
+
+/**
+ * Get a cached installation token that is still comfortably within its lifetime
+ */
+export async function getCachedToken(env: Env, installationId: number): Promise<string | null> {
+  return readCached(env, tokens, installationId, `installation-token:${installationId}`);
+}
+
+/**
+ * Cache a freshly minted token until shortly before its expires_at
+ */
+export async function cacheToken(
+  env: Env,
+  installationId: number,
+  token: string,
+  expiresAt: string
+): Promise<void> {
+  const entry = { value: token, expiresAt: Date.parse(expiresAt) - TOKEN_REFRESH_MARGIN_MS };
+  if (!(entry.expiresAt > Date.now())) {
+    return;
+  }
+
+  tokens.set(installationId, entry);
+  await writeKv(env, `installation-token:${installationId}`, entry);
+}
+
+/**
+ * Drop cached IDs and tokens for an installation, e.g. after it is removed or its repos change
+ * KV entries can only be found by repo, so pass the affected "owner/repo" names when known
+ */
+export async function forgetInstallation(
+  env: Env,
+  installationId: number,
+  repos: string[] = []
+): Promise<void> {
+  const keys = new Set(repos.map((fullName) => fullName.toLowerCase()));
+  for (const [key, entry] of installationIds) {
+    if (entry.value === installationId) {
+      keys.add(key);
+    }
+  }
+
+  for (const key of keys) {
+    installationIds.delete(key);
+  }
+  tokens.delete(installationId);
+
+  if (env.STATE) {
+    await Promise.all([
+      env.STATE.delete(`installation-token:${installationId}`),
+      ...[...keys].map((key) => env.STATE!.delete(`installation:${key}`)),
+    ]);
+  }
+}
+
+function repoKey(owner: string, repo: string): string {
+  return `${owner}/${repo}`.toLowerCase();
+}
+
+/**
+ * Read through the isolate cache to KV, which may hold a value another isolate stored
+ */
+async function readCached<K, T>(
+  env: Env,
+  cache: Map<K, CachedValue<T>>,
+  key: K,
+  kvKey: string
+): Promise<T | null> {
+  let entry = cache.get(key) || null;
+  if (!entry || entry.expiresAt <= Date.now()) {
+    entry = await readKv<T>(env, kvKey);
+    if (!entry || entry.expiresAt <= Date.now()) {
+      cache.delete(key);
+      return null;
+    }
+    cache.set(key, entry);
+  }
+  return entry.value;
+}
+
+async function readKv<T>(env: Env, key: string): Promise<CachedValue<T> | null> {
+  if (!env.STATE) return null;
+  try {
+    return await env.STATE.get<CachedValue<T>>(key, 'json');
+  } catch (error) {
+    console.error(`[InstallationCache] Failed to read ${key}:`, error);
+    return null;
+  }
+}
+
+async function writeKv<T>(env: Env, key: string, entry: CachedValue<T>): Promise<void> {
+  if (!env.STATE) return;
+  const ttlSeconds = Math.floor((entry.expiresAt - Date.now()) / 1000);
+  if (ttlSeconds < MIN_KV_TTL_SECONDS) return;
+  try {
+    await env.STATE.put(key, JSON.stringify(entry), { expirationTtl: ttlSeconds });
+  } catch (error) {
+    // The cache is an optimization; a failed write just means another lookup later
+    console.error(`[InstallationCache] Failed to write ${key}:`, error);
+  }
+}
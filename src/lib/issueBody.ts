@@ -0,0 +1,292 @@
+import type { FeedbackPayload, VerifiedSubmitter } from '../types';
+import { renderTemplate } from './template';
+import type { IssueUploads } from './uploads';
+import {
+  formatContext,
+  formatBreadcrumbs,
+  formatErrors,
+  formatNetworkRequests,
+  formatConsoleLogs,
+  truncateText,
+} from './capturedSections';
+
+const FOOTER = '*Submitted via [BugDrop](https://github.com/neonwatty/bugdrop)*';
+
+// Longest description kept, and the hard cap on the whole body. The cap leaves room for the
+// duplicate fingerprint marker and the heading added when a repeat report becomes a comment
+const MAX_DESCRIPTION_LENGTH = 20000;
+const MAX_BODY_LENGTH = 60000;
+
+/**
+ * Format the issue body with markdown
+ * Uses the repository's issue template when it has one, otherwise the built-in layout
+ * A verified identity (from a host-signed user token) replaces the self-reported submitter
+ * and a note records how many items were redacted from the submission
+ */
+export function formatIssueBody(
+  payload: FeedbackPayload,
+  uploads: IssueUploads = {},
+  template?: string | null,
+  identity?: VerifiedSubmitter | null,
+  redactedCount = 0
+): string {
+  if (template) {
+    return limitBody(renderTemplate(
+      template,
+      buildTemplateContext(payload, uploads, identity, redactedCount)
+    ));
+  }
+
+  const sections: string[] = [];
+
+  // Submitter info (if provided)
+  if (identity || payload.submitter?.name || payload.submitter?.email) {
+    sections.push('## Submitted by');
+    sections.push(formatSubmitter(payload, identity));
+    sections.push('');
+  }
+
+  // Description
+  sections.push('## Description');
+  sections.push(truncateText(payload.description, MAX_DESCRIPTION_LENGTH));
+  sections.push('');
+
+  // Screenshot - embedded from its uploaded URL
+  const screenshot = formatScreenshot(uploads);
+  if (screenshot) {
+    sections.push('## Screenshot');
+    sections.push(screenshot);
+    sections.push('');
+  }
+
+  const attachments = formatAttachments(uploads);
+  if (attachments) {
+    sections.push('## Attachments');
+    sections.push(attachments);
+    sections.push('');
+  }
+
+  const context = formatContext(payload);
+  if (context) {
+    sections.push('## Context');
+    sections.push(context);
+    sections.push('');
+  }
+
+  const steps = formatBreadcrumbs(payload);
+  if (steps) {
+    sections.push('## Steps leading up to report');
+    sections.push(steps);
+    sections.push('');
+  }
+
+  const errors = formatErrors(payload);
+  if (errors) {
+    sections.push('## Errors');
+    sections.push(errors);
+    sections.push('');
+  }
+
+  const network = formatNetworkRequests(payload);
+  if (network) {
+    sections.push('## Network');
+    sections.push(network);
+    sections.push('');
+  }
+
+  const consoleLogs = formatConsoleLogs(payload);
+  if (consoleLogs) {
+    sections.push(consoleLogs);
+    sections.push('');
+  }
+
+  sections.push(formatSystemInfo(payload));
+  sections.push('');
+  if (redactedCount > 0) {
+    sections.push(formatRedactionNote(redactedCount));
+    sections.push('');
+  }
+  sections.push('---');
+  sections.push(FOOTER);
+
+  return limitBody(sections.join('\n'));
+}
+
+/**
+ * Values available to repository templates, e.g. {{description}},
+ * {{metadata.browser}}, {{submitter.name}} or {{#if elementSelector}}
+ */
+function buildTemplateContext(
+  payload: FeedbackPayload,
+  uploads: IssueUploads,
+  identity?: VerifiedSubmitter | null,
+  redactedCount = 0
+): Record<string, unknown> {
+  const { metadata } = payload;
+  const submitter = identity || payload.submitter;
+  return {
+    title: payload.title,
+    description: truncateText(payload.description, MAX_DESCRIPTION_LENGTH),
+    category: payload.category || 'bug',
+    screenshot: formatScreenshot(uploads),
+    screenshotUrl: uploads.annotatedUrl || uploads.screenshotUrl || '',
+    originalScreenshotUrl: uploads.screenshotUrl || '',
+    attachments: formatAttachments(uploads),
+    domSnapshotUrl: uploads.domSnapshot?.viewerUrl || uploads.domSnapshot?.url || '',
+    submitter: {
+      name: submitter?.name || '',
+      email: submitter?.email || '',
+      id: identity?.id || '',
+      verified: Boolean(identity),
+      display: formatSubmitter(payload, identity),
+    },
+    elementSelector: metadata.elementSelector || '',
+    metadata: {
+      url: metadata.url,
+      userAgent: metadata.userAgent,
+      timestamp: metadata.timestamp,
+      viewport: `${metadata.viewport.width}×${metadata.viewport.height}`,
+      browser: formatNameVersion(metadata.browser),
+      os: formatNameVersion(metadata.os),
+      devicePixelRatio: metadata.devicePixelRatio || '',
+      language: metadata.language || '',
+      elementSelector: metadata.elementSelector || '',
+    },
+    systemInfo: formatSystemInfo(payload),
+    consoleLogs: formatConsoleLogs(payload),
+    network: formatNetworkRequests(payload),
+    errors: formatErrors(payload),
+    breadcrumbs: formatBreadcrumbs(payload),
+    context: formatContext(payload),
+    redactedCount,
+    redactionNote: redactedCount > 0 ? formatRedactionNote(redactedCount) : '',
+    footer: FOOTER,
+  };
+}
+
+/**
+ * The annotated screenshot when there is one, with the unmarked original in a collapsible block
+ */
+function formatScreenshot({ screenshotUrl, annotatedUrl }: IssueUploads): string {
+  if (!annotatedUrl) {
+    return screenshotUrl ? `![Screenshot](${screenshotUrl})` : '';
+  }
+
+  const lines = [`![Annotated screenshot](${annotatedUrl})`];
+  if (screenshotUrl) {
+    lines.push(
+      '',
+      '<details>',
+      '<summary>Original screenshot</summary>',
+      '',
+      `![Original screenshot](${screenshotUrl})`,
+      '',
+      '</details>'
+    );
+  }
+  return lines.join('\n');
+}
+
+/**
+ * Attached files as a list of download links with their sizes
+ */
+function formatAttachments({ attachments = [], domSnapshot }: IssueUploads): string {
+  const lines = attachments.map(({ name, url, size }) => `- [${name}](${url}) (${formatSize(size)})`);
+  if (domSnapshot) {
+    lines.push(domSnapshot.viewerUrl
+      ? `- [DOM snapshot](${domSnapshot.viewerUrl}) (open to inspect the page as the reporter saw it, or [download](${domSnapshot.url}))`
+      : `- [DOM snapshot](${domSnapshot.url}) (gzipped HTML of the page as the reporter saw it)`);
+  }
+  return lines.join('\n');
+}
+
+function formatSize(bytes: number): string {
+  if (bytes < 1024) return `${bytes} B`;
+  if (bytes < 1024 * 1024) return `${(bytes / 1024).toFixed(1)} KB`;
+  return `${(bytes / (1024 * 1024)).toFixed(1)} MB`;
+}
+
+/**
+ * Last-resort cap for bodies that are still too long, e.g. a template that repeats the larger sections
+ */
+function limitBody(body: string): string {
+  if (body.length <= MAX_BODY_LENGTH) {
+    return body;
+  }
+  return `${body.slice(0, MAX_BODY_LENGTH)}\n\n> ✂️ This report was truncated to fit GitHub's issue size limit.`;
+}
+
+function formatSubmitter(payload: FeedbackPayload, identity?: VerifiedSubmitter | null): string {
+  const submitter = identity || payload.submitter;
+  const parts: string[] = [];
+  if (submitter?.name) {
+    parts.push(`**${submitter.name}**`);
+  }
+  if (submitter?.email) {
+    parts.push(`(${submitter.email})`);
+  }
+
+  if (identity) {
+    parts.push(`✅ Verified (user \`${identity.id.replace(/`/g, '')}\`)`);
+  } else if (parts.length > 0) {
+    parts.push('_(self-reported)_');
+  }
+  return parts.join(' ');
+}
+
+function formatRedactionNote(count: number): string {
+  const items = count === 1 ? '1 item was' : `${count} items were`;
+  return `> 🔒 ${items} redacted from this report (emails, card numbers, tokens or other personal data).`;
+}
+
+function formatNameVersion(info?: { name: string; version: string }): string {
+  if (!info) return '';
+  return info.version ? `${info.name} ${info.version}` : info.name;
+}
+
+/**
+ * Collapsible System Info table
+ */
+function formatSystemInfo(payload: FeedbackPayload): string {
+  const { metadata } = payload;
+  const rows: string[] = [];
+
+  rows.push('<details>');
+  rows.push('<summary>System Info</summary>');
+  rows.push('');
+  rows.push('| Property | Value |');
+  rows.push('|----------|-------|');
+
+  // Browser and OS (if available)
+  if (metadata.browser) {
+    rows.push(`| **Browser** | ${formatNameVersion(metadata.browser)} |`);
+  }
+
+  if (metadata.os) {
+    rows.push(`| **OS** | ${formatNameVersion(metadata.os)} |`);
+  }
+
+  // Viewport with pixel ratio
+  const pixelRatio = metadata.devicePixelRatio
+    ? ` @${metadata.devicePixelRatio}x`
+    : '';
+  rows.push(`| **Viewport** | ${metadata.viewport.width}×${metadata.viewport.height}${pixelRatio} |`);
+
+  // Language
+  if (metadata.language) {
+    rows.push(`| **Language** | ${metadata.language} |`);
+  }
+
+  // URL (redacted)
+  rows.push(`| **Page** | ${metadata.url} |`);
+  rows.push(`| **Timestamp** | ${metadata.timestamp} |`);
+
+  if (metadata.elementSelector) {
+    rows.push(`| **Element** | \`${metadata.elementSelector}\` |`);
+  }
+
+  rows.push('');
+  rows.push('</details>');
+
+  return rows.join('\n');
+}
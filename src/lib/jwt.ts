@@ -40,6 +40,101 @@ export async function generateGitHubAppJWT(
   return `${signingInput}.${encodedSignature}`;
 }
 
+/**
+ * Sign claims as an HS256 JWT with a Worker secret
+ * Used for tokens the Worker issues and later verifies itself (e.g. receipts)
+ */
+export async function signToken(
+  claims: Record<string, unknown>,
+  secret: string
+): Promise<string> {
+  const encodedHeader = base64UrlEncode(JSON.stringify({ alg: 'HS256', typ: 'JWT' }));
+  // Encode via UTF-8 bytes so claims may contain non-Latin-1 text
+  const encodedPayload = base64UrlEncode(new TextEncoder().encode(JSON.stringify(claims)).buffer as ArrayBuffer);
+  const signingInput = `${encodedHeader}.${encodedPayload}`;
+
+  const key = await importHmacKey(secret);
+  const signature = await crypto.subtle.sign('HMAC', key, new TextEncoder().encode(signingInput));
+
+  return `${signingInput}.${base64UrlEncode(signature)}`;
+}
+
+/**
+ * Verify an HS256 JWT signed by signToken (or by a host app sharing the secret)
+ * Returns the claims, or null if the signature is invalid or the token has expired
+ */
+export async function verifyToken(
+  token: string,
+  secret: string
+): Promise<Record<string, unknown> | null> {
+  return verifyJwt(token, 'HS256', async (signature, input) =>
+    crypto.subtle.verify('HMAC', await importHmacKey(secret), signature, input)
+  );
+}
+
+/**
+ * Verify an RS256 JWT against a PEM public key (BEGIN PUBLIC KEY)
+ * Returns the claims, or null if the signature is invalid or the token has expired
+ */
+export async function verifyRS256Token(
+  token: string,
+  publicKeyPem: string
+): Promise<Record<string, unknown> | null> {
+  return verifyJwt(token, 'RS256', async (signature, input) =>
+    crypto.subtle.verify(
+      { name: 'RSASSA-PKCS1-v1_5' },
+      await importPublicKey(publicKeyPem),
+      signature,
+      input
+    )
+  );
+}
+
+async function verifyJwt(
+  token: string,
+  alg: 'HS256' | 'RS256',
+  verifySignature: (signature: Uint8Array, input: Uint8Array) => Promise<boolean>
+): Promise<Record<string, unknown> | null> {
+  const [encodedHeader, encodedPayload, encodedSignature] = token.split('.');
+  if (!encodedHeader || !encodedPayload || !encodedSignature) {
+    return null;
+  }
+
+  try {
+    const header = JSON.parse(base64UrlDecodeString(encodedHeader)) as { alg?: string };
+    if (header.alg !== alg) {
+      return null;
+    }
+
+    const valid = await verifySignature(
+      base64UrlDecode(encodedSignature),
+      new TextEncoder().encode(`${encodedHeader}.${encodedPayload}`)
+    );
+    if (!valid) {
+      return null;
+    }
+
+    const claims = JSON.parse(base64UrlDecodeString(encodedPayload)) as Record<string, unknown>;
+    if (typeof claims.exp === 'number' && claims.exp < Math.floor(Date.now() / 1000)) {
+      return null;
+    }
+    return claims;
+  } catch {
+    // Malformed base64, JSON or key
+    return null;
+  }
+}
+
+function importHmacKey(secret: string): Promise<CryptoKey> {
+  return crypto.subtle.importKey(
+    'raw',
+    new TextEncoder().encode(secret),
+    { name: 'HMAC', hash: 'SHA-256' },
+    false,
+    ['sign', 'verify']
+  );
+}
+
 /**
  * Import private key for WebCrypto
  * Supports both PKCS#8 (BEGIN PRIVATE KEY) and PKCS#1 (BEGIN RSA PRIVATE KEY)
@@ -79,6 +174,30 @@ async function importPrivateKey(pem: string): Promise<CryptoKey> {
   );
 }
 
+/**
+ * Import an RSA public key (SPKI PEM) for RS256 verification
+ */
+function importPublicKey(pem: string): Promise<CryptoKey> {
+  const pemContents = pem
+    .replace(/-----BEGIN PUBLIC KEY-----/, '')
+    .replace(/-----END PUBLIC KEY-----/, '')
+    .replace(/\s/g, '');
+
+  const binaryString = atob(pemContents);
+  const keyBytes = new Uint8Array(binaryString.length);
+  for (let i = 0; i < binaryString.length; i++) {
+    keyBytes[i] = binaryString.charCodeAt(i);
+  }
+
+  return crypto.subtle.importKey(
+    'spki',
+    keyBytes.buffer as ArrayBuffer,
+    { name: 'RSASSA-PKCS1-v1_5', hash: 'SHA-256' },
+    false,
+    ['verify']
+  );
+}
+
 /**
  * Convert PKCS#1 RSA private key to PKCS#8 format
  * Wraps the key with the RSA algorithm identifier
@@ -153,3 +272,20 @@ function base64UrlEncode(data: string | ArrayBuffer): string {
     .replace(/\//g, '_')
     .replace(/=+$/, '');
 }
+
+/**
+ * Base64 URL decode to bytes
+ */
+function base64UrlDecode(data: string): Uint8Array {
+  const base64 = data.replace(/-/g, '+').replace(/_/g, '/');
+  const binary = atob(base64 + '='.repeat((4 - (base64.length % 4)) % 4));
+  const bytes = new Uint8Array(binary.length);
+  for (let i = 0; i < binary.length; i++) {
+    bytes[i] = binary.charCodeAt(i);
+  }
+  return bytes;
+}
+
+function base64UrlDecodeString(data: string): string {
+  return new TextDecoder().decode(base64UrlDecode(data));
+}
@@ -0,0 +1,172 @@
+import type { Env, NotificationTarget } from '../types';
+
+// Delivery attempts per webhook, with exponential backoff between them
+const MAX_ATTEMPTS = 3;
+const BASE_DELAY_MS = 1000;
+
+export interface SubmissionNotification {
+  repo: string;
+  issueNumber: number;
+  issueUrl: string;
+  title: string;
+  category: string;
+  pageUrl: string;
+  screenshotUrl?: string;
+  submitterName?: string;
+}
+
+/**
+ * Tell each of the repo's notification webhooks about a new issue
+ * Never throws: failed deliveries are retried, then logged
+ */
+export async function notifySubmission(
+  env: Env,
+  targets: NotificationTarget[],
+  notification: SubmissionNotification
+): Promise<void> {
+  await Promise.all(targets.map(async (target) => {
+    try {
+      await deliver(env, target, notification);
+    } catch (error) {
+      console.error(`[Notifications] Failed to notify ${new URL(target.url).host}:`, error);
+    }
+  }));
+}
+
+async function deliver(
+  env: Env,
+  target: NotificationTarget,
+  notification: SubmissionNotification
+): Promise<void> {
+  const body = JSON.stringify(buildNotificationBody(target.format, notification));
+  const headers: Record<string, string> = {
+    'Content-Type': 'application/json',
+    'User-Agent': 'BugDrop/1.0',
+  };
+
+  if (target.format === 'generic') {
+    headers['X-BugDrop-Event'] = 'feedback.created';
+    const secret = await getSigningSecret(env, notification.repo);
+    if (secret) {
+      headers['X-BugDrop-Signature-256'] = await sign(secret, body);
+    }
+  }
+
+  for (let attempt = 1; ; attempt++) {
+    let error: unknown;
+    let retryable = true;
+    try {
+      const response = await fetch(target.url, { method: 'POST', headers, body });
+      if (response.ok) {
+        return;
+      }
+      error = new Error(`Webhook responded ${response.status}`);
+      // Client errors won't fix themselves (except rate limiting)
+      retryable = response.status >= 500 || response.status === 429;
+    } catch (fetchError) {
+      error = fetchError;
+    }
+
+    if (!retryable || attempt >= MAX_ATTEMPTS) {
+      throw error;
+    }
+    await new Promise((resolve) => setTimeout(resolve, BASE_DELAY_MS * 2 ** (attempt - 1)));
+  }
+}
+
+/**
+ * Build the request body for a webhook format
+ */
+function buildNotificationBody(
+  format: NotificationTarget['format'],
+  n: SubmissionNotification
+): unknown {
+  const submitter = n.submitterName || 'Anonymous';
+
+  switch (format) {
+    case 'slack': {
+      // Submitted text can't be allowed to form mentions like <!channel> or break out of links
+      const title = escapeSlack(n.title);
+      return {
+        text: `New ${escapeSlack(n.category)} report in ${n.repo}: <${n.issueUrl}|#${n.issueNumber} ${title}>`,
+        blocks: [
+          {
+            type: 'section',
+            text: {
+              type: 'mrkdwn',
+              text: `*<${n.issueUrl}|#${n.issueNumber} ${title}>*\n` +
+                `${escapeSlack(n.category)} · ${n.repo} · from ${escapeSlack(submitter)}\n` +
+                `Page: ${escapeSlack(n.pageUrl)}`,
+            },
+            ...(n.screenshotUrl && {
+              accessory: { type: 'image', image_url: n.screenshotUrl, alt_text: 'Screenshot' },
+            }),
+          },
+        ],
+      };
+    }
+    case 'discord':
+      return {
+        embeds: [
+          {
+            title: `#${n.issueNumber} ${n.title}`.slice(0, 256),
+            url: n.issueUrl,
+            description: `New ${n.category} report in ${n.repo}`,
+            fields: [
+              { name: 'Submitted by', value: submitter, inline: true },
+              { name: 'Page', value: n.pageUrl.slice(0, 1024) },
+            ],
+            ...(n.screenshotUrl && { image: { url: n.screenshotUrl } }),
+          },
+        ],
+      };
+    default:
+      return {
+        event: 'feedback.created',
+        repo: n.repo,
+        issue: { number: n.issueNumber, url: n.issueUrl, title: n.title },
+        category: n.category,
+        pageUrl: n.pageUrl,
+        screenshotUrl: n.screenshotUrl || null,
+        submitter: { name: n.submitterName || null },
+      };
+  }
+}
+
+/**
+ * Escape the characters Slack treats as control sequences in mrkdwn
+ */
+function escapeSlack(text: string): string {
+  return text.replace(/&/g, '&amp;').replace(/</g, '&lt;').replace(/>/g, '&gt;');
+}
+
+/**
+ * The secret a repo's generic webhooks are signed with, stored by the operator under
+ * "notification-secret:owner/repo" in the STATE namespace so each repo's receivers can
+ * only trust payloads signed for that repo. Without one, payloads are sent unsigned
+ */
+async function getSigningSecret(env: Env, repo: string): Promise<string | null> {
+  if (!env.STATE) return null;
+  try {
+    return await env.STATE.get(`notification-secret:${repo}`.toLowerCase());
+  } catch (error) {
+    console.error(`[Notifications] Failed to read signing secret for ${repo}:`, error);
+    return null;
+  }
+}
+
+/**
+ * HMAC-SHA256 signature in the same "sha256=<hex>" form GitHub uses
+ */
+async function sign(secret: string, body: string): Promise<string> {
+  const key = await crypto.subtle.importKey(
+    'raw',
+    new TextEncoder().encode(secret),
+    { name: 'HMAC', hash: 'SHA-256' },
+    false,
+    ['sign']
+  );
+  const digest = await crypto.subtle.sign('HMAC', key, new TextEncoder().encode(body));
+  const hex = Array.from(new Uint8Array(digest), (b) => b.toString(16).padStart(2, '0')).join('');
+  return `sha256=${hex}`;
+}
@@ -0,0 +1,97 @@
+import type { Env, RepoConfig } from '../types';
+import { getInstallationToken } from './github';
+import { getRepoConfig } from './repoConfig';
+
+/**
+ * Parse a comma-separated origin list such as ALLOWED_ORIGINS
+ */
+export function parseOriginList(value: string | undefined): string[] {
+  return (value || '*').split(',').map((o) => o.trim()).filter(Boolean);
+}
+
+/**
+ * Check an origin against allowlist patterns
+ * Patterns are exact origins, "*" for any origin, or a wildcard subdomain
+ * such as "https://*.preview.example.com" (matches any depth of subdomain,
+ * but not preview.example.com itself)
+ */
+export function isOriginAllowed(origin: string, patterns: string[]): boolean {
+  const normalized = origin.toLowerCase();
+  return patterns.some((pattern) => {
+    const p = pattern.toLowerCase();
+    if (p === '*' || p === normalized) {
+      return true;
+    }
+
+    const wildcard = p.match(/^([a-z][a-z0-9+.-]*:\/\/)\*\.(.+)$/);
+    if (!wildcard) {
+      return false;
+    }
+    const [, scheme, suffix] = wildcard;
+    return normalized.startsWith(scheme) &&
+      normalized.endsWith(`.${suffix}`) &&
+      normalized.length > scheme.length + suffix.length + 1 &&
+      !normalized.slice(scheme.length, -suffix.length - 1).includes('/');
+  });
+}
+
+/**
+ * Origins allowed to submit feedback to a repository, in order of precedence:
+ * the operator's KV registry entry, the repo's .bugdrop.yml, then ALLOWED_ORIGINS
+ */
+export async function getAllowedOrigins(
+  env: Env,
+  owner: string,
+  repo: string,
+  config: RepoConfig
+): Promise<string[]> {
+  const registered = await getRegisteredOrigins(env, owner, repo);
+  return registered || config.allowedOrigins || parseOriginList(env.ALLOWED_ORIGINS);
+}
+
+/**
+ * Check an origin against a repo's allowlist (registry, .bugdrop.yml, then ALLOWED_ORIGINS)
+ * Fails closed when the repo's config can't be loaded
+ */
+export async function isOriginAllowedForRepo(env: Env, repoParam: string, origin: string): Promise<boolean> {
+  const [owner, repo] = repoParam.split('/');
+  if (!owner || !repo) {
+    return false;
+  }
+
+  try {
+    const token = await getInstallationToken(env, owner, repo);
+    if (!token) {
+      return false;
+    }
+    const config = await getRepoConfig(token, owner, repo);
+    return isOriginAllowed(origin, await getAllowedOrigins(env, owner, repo, config));
+  } catch (error) {
+    console.error(`[Origins] Failed to check origins for ${owner}/${repo}:`, error);
+    return false;
+  }
+}
+
+/**
+ * Read the registry entry for a repo: a JSON array stored under "origins:owner/repo"
+ */
+async function getRegisteredOrigins(
+  env: Env,
+  owner: string,
+  repo: string
+): Promise<string[] | null> {
+  if (!env.STATE) return null;
+
+  try {
+    const origins = await env.STATE.get<unknown>(`origins:${owner}/${repo}`.toLowerCase(), 'json');
+    if (Array.isArray(origins) && origins.every((o) => typeof o === 'string')) {
+      return origins;
+    }
+    if (origins !== null) {
+      console.warn(`[Origins] Ignoring malformed registry entry for ${owner}/${repo}`);
+    }
+  } catch (error) {
+    console.error(`[Origins] Failed to read registry entry for ${owner}/${repo}:`, error);
+  }
+  return null;
+}
@@ -0,0 +1,144 @@
+import type { Env, ProofOfWorkSolution } from '../types';
+import { signToken, verifyToken } from './jwt';
+
+// How long a challenge can be solved and submitted
+const CHALLENGE_TTL_SECONDS = 10 * 60;
+
+// Hardest puzzle ever issued: each bit doubles the work, and one SHA-256 digest through
+// WebCrypto takes ~16µs on a desktop, so 2^20 hashes is ~15s there and longer on a phone
+export const MAX_DIFFICULTY = 20;
+
+// Solved challenges, remembered until they expire so each can only be used once
+// (per isolate, and in STATE KV when it is bound)
+const usedChallenges = new Map<string, number>();
+
+interface Challenge {
+  challenge: string;
+  difficulty: number;
+  expiresAt: string;
+}
+
+type ChallengeError = 'CHALLENGE_REQUIRED' | 'CHALLENGE_INVALID';
+
+/**
+ * Difficulty (leading zero bits) for a repo, raised as it nears its submission limit
+ */
+export function getChallengeDifficulty(baseDifficulty: number, repoUsage: number): number {
+  let difficulty = baseDifficulty;
+  if (repoUsage >= 0.8) {
+    difficulty += 4;
+  } else if (repoUsage >= 0.5) {
+    difficulty += 2;
+  }
+  return Math.min(difficulty, MAX_DIFFICULTY);
+}
+
+/**
+ * Issue a signed puzzle: find a solution where SHA-256("<challenge>:<solution>")
+ * starts with `difficulty` zero bits
+ */
+export async function issueChallenge(
+  secret: string,
+  repo: string,
+  difficulty: number
+): Promise<Challenge> {
+  const now = Math.floor(Date.now() / 1000);
+  const nonce = Array.from(crypto.getRandomValues(new Uint8Array(16)), (b) =>
+    b.toString(16).padStart(2, '0')
+  ).join('');
+
+  const challenge = await signToken({
+    purpose: 'challenge',
+    repo: repo.toLowerCase(),
+    difficulty,
+    jti: nonce,
+    exp: now + CHALLENGE_TTL_SECONDS,
+  }, secret);
+
+  return {
+    challenge,
+    difficulty,
+    expiresAt: new Date((now + CHALLENGE_TTL_SECONDS) * 1000).toISOString(),
+  };
+}
+
+/**
+ * Check a submission's solved challenge
+ * Returns an error code, or null when the solution is valid (the challenge is then used up)
+ */
+export async function checkProofOfWork(
+  env: Env,
+  secret: string,
+  repo: string,
+  minDifficulty: number,
+  solution?: ProofOfWorkSolution
+): Promise<ChallengeError | null> {
+  if (!solution?.challenge || typeof solution.solution !== 'string') {
+    return 'CHALLENGE_REQUIRED';
+  }
+
+  const claims = await verifyToken(solution.challenge, secret);
+  if (
+    claims?.purpose !== 'challenge' ||
+    claims.repo !== repo.toLowerCase() ||
+    typeof claims.difficulty !== 'number' ||
+    claims.difficulty < minDifficulty ||
+    typeof claims.jti !== 'string' ||
+    typeof claims.exp !== 'number'
+  ) {
+    return 'CHALLENGE_INVALID';
+  }
+
+  const hash = await crypto.subtle.digest(
+    'SHA-256',
+    new TextEncoder().encode(`${solution.challenge}:${solution.solution}`)
+  );
+  if (!hasLeadingZeroBits(new Uint8Array(hash), claims.difficulty)) {
+    return 'CHALLENGE_INVALID';
+  }
+
+  if (!(await markChallengeUsed(env, claims.jti, claims.exp))) {
+    return 'CHALLENGE_INVALID';
+  }
+
+  return null;
+}
+
+function hasLeadingZeroBits(hash: Uint8Array, bits: number): boolean {
+  for (let i = 0; i < bits; i++) {
+    if (hash[i >> 3] & (0x80 >> (i & 7))) {
+      return false;
+    }
+  }
+  return true;
+}
+
+/**
+ * Record a challenge as used; returns false if it already was
+ */
+async function markChallengeUsed(env: Env, jti: string, exp: number): Promise<boolean> {
+  const now = Math.floor(Date.now() / 1000);
+  for (const [id, expiresAt] of usedChallenges) {
+    if (expiresAt < now) usedChallenges.delete(id);
+  }
+
+  if (usedChallenges.has(jti)) {
+    return false;
+  }
+  usedChallenges.set(jti, exp);
+
+  if (env.STATE) {
+    try {
+      const key = `challenge:${jti}`;
+      if (await env.STATE.get(key)) {
+        return false;
+      }
+      // KV rejects expirations shorter than a minute
+      await env.STATE.put(key, '1', { expirationTtl: Math.max(exp - now, 60) });
+    } catch (error) {
+      console.error('[ProofOfWork] Failed to record used challenge:', error);
+    }
+  }
+
+  return true;
+}
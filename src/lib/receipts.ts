@@ -0,0 +1,95 @@
+import type { RepoConfig } from '../types';
+import { signToken, verifyToken } from './jwt';
+import { getIssue, listIssueComments } from './github';
+
+// Receipts stay valid long enough to follow a report through a normal triage cycle
+const RECEIPT_TTL_SECONDS = 180 * 24 * 60 * 60;
+
+// Comment authors treated as maintainers
+const MAINTAINER_ASSOCIATIONS = ['OWNER', 'MEMBER', 'COLLABORATOR'];
+
+interface FeedbackStatus {
+  repo: string;
+  issueNumber: number;
+  state: 'open' | 'closed';
+  stateReason: string | null;
+  labels: string[];
+  updatedAt: string;
+  closedAt: string | null;
+  lastMaintainerComment?: { body: string; createdAt: string };
+}
+
+/**
+ * Issue a receipt token that lets the reporter check on their issue
+ */
+export function createReceipt(
+  secret: string,
+  owner: string,
+  repo: string,
+  issueNumber: number
+): Promise<string> {
+  const now = Math.floor(Date.now() / 1000);
+  return signToken({
+    purpose: 'receipt',
+    repo: `${owner}/${repo}`.toLowerCase(),
+    issue: issueNumber,
+    iat: now,
+    exp: now + RECEIPT_TTL_SECONDS,
+  }, secret);
+}
+
+/**
+ * Check that a receipt was issued by this Worker for the given issue
+ */
+export async function verifyReceipt(
+  secret: string,
+  receipt: string,
+  owner: string,
+  repo: string,
+  issueNumber: number
+): Promise<boolean> {
+  const claims = await verifyToken(receipt, secret);
+  return claims?.purpose === 'receipt' &&
+    claims.repo === `${owner}/${repo}`.toLowerCase() &&
+    claims.issue === issueNumber;
+}
+
+/**
+ * Build the reporter-facing status view of an issue
+ * Only exposes state and labels (plus the last maintainer comment when the repo allows it),
+ * so private repos can offer status without revealing the issue itself
+ */
+export async function getFeedbackStatus(
+  token: string,
+  owner: string,
+  repo: string,
+  issueNumber: number,
+  config: RepoConfig
+): Promise<FeedbackStatus | null> {
+  const issue = await getIssue(token, owner, repo, issueNumber);
+  if (!issue) {
+    return null;
+  }
+
+  const status: FeedbackStatus = {
+    repo: `${owner}/${repo}`,
+    issueNumber,
+    state: issue.state,
+    stateReason: issue.state_reason,
+    labels: issue.labels.map((label) => label.name),
+    updatedAt: issue.updated_at,
+    closedAt: issue.closed_at,
+  };
+
+  if (config.showMaintainerComments) {
+    const comments = await listIssueComments(token, owner, repo, issueNumber);
+    const last = comments
+      .filter((comment) => MAINTAINER_ASSOCIATIONS.includes(comment.author_association))
+      .pop();
+    if (last) {
+      status.lastMaintainerComment = { body: last.body, createdAt: last.created_at };
+    }
+  }
+
+  return status;
+}
@@ -0,0 +1,142 @@
+import type { FeedbackPayload, RedactionConfig } from '../types';
+
+interface Detector {
+  pattern: RegExp;
+  replacement: string;
+  // Extra check for matches the pattern alone can't rule out
+  accept?: (match: string) => boolean;
+}
+
+// Order matters: tokens are matched before the looser key and card patterns
+const DETECTORS: Detector[] = [
+  {
+    pattern: /\beyJ[\w-]{5,}\.eyJ[\w-]{5,}\.[\w-]{10,}/g,
+    replacement: '[REDACTED TOKEN]',
+  },
+  {
+    // Well-known key prefixes (Stripe, GitHub, Slack, AWS, Google, OpenAI-style)
+    pattern: /\b(?:[sr]k_(?:live|test)_[A-Za-z0-9]{16,}|gh[pousr]_[A-Za-z0-9]{36,}|github_pat_\w{22,}|xox[abposr]-[\w-]{10,}|AKIA[0-9A-Z]{16}|AIza[\w-]{35}|sk-[\w-]{20,})/g,
+    replacement: '[REDACTED API KEY]',
+  },
+  {
+    // Long mixed-case alphanumeric strings; hex hashes and UUIDs are lowercase, so they're kept
+    pattern: /\b[A-Za-z0-9_-]{32,}\b/g,
+    replacement: '[REDACTED API KEY]',
+    accept: (match) => /[a-z]/.test(match) && /[A-Z]/.test(match) && /\d/.test(match),
+  },
+  {
+    pattern: /\b[A-Z0-9._%+-]+@[A-Z0-9.-]+\.[A-Z]{2,}\b/gi,
+    replacement: '[REDACTED EMAIL]',
+  },
+  {
+    pattern: /\b\d(?:[ -]?\d){12,18}\b/g,
+    replacement: '[REDACTED CARD]',
+    accept: (match) => isCardNumber(match.replace(/\D/g, '')),
+  },
+  {
+    pattern: /\b(?:(?:25[0-5]|2[0-4]\d|1?\d?\d)\.){3}(?:25[0-5]|2[0-4]\d|1?\d?\d)\b/g,
+    replacement: '[REDACTED IP]',
+  },
+  {
+    // Full or "::"-compressed IPv6 (so times like 12:30:45 don't match)
+    pattern: /\b(?:(?:[0-9a-f]{1,4}:){7}[0-9a-f]{1,4}|(?:[0-9a-f]{1,4}:){1,6}(?::[0-9a-f]{1,4}){1,6})\b/gi,
+    replacement: '[REDACTED IP]',
+  },
+];
+
+/**
+ * Scrub secrets and personal data from the parts of a submission that end up in the issue:
+ * title, description, page URL, selected element, host-provided context, and captured
+ * console lines, breadcrumbs, request URLs and errors
+ * The submitter's own name and email are left alone, since they chose to share them
+ */
+export function redactPayload(
+  payload: FeedbackPayload,
+  config: RedactionConfig
+): { payload: FeedbackPayload; redactedCount: number } {
+  if (!config.enabled) {
+    return { payload, redactedCount: 0 };
+  }
+
+  const detectors: Detector[] = [
+    ...DETECTORS,
+    ...config.patterns.map((pattern) => ({
+      pattern: new RegExp(pattern, 'gi'),
+      replacement: '[REDACTED]',
+    })),
+  ];
+
+  let redactedCount = 0;
+  const redact = (text: string): string => {
+    for (const { pattern, replacement, accept } of detectors) {
+      text = text.replace(pattern, (match) => {
+        if (!match || (accept && !accept(match))) {
+          return match;
+        }
+        redactedCount++;
+        return replacement;
+      });
+    }
+    return text;
+  };
+
+  const { metadata } = payload;
+  const redacted: FeedbackPayload = {
+    ...payload,
+    title: redact(payload.title),
+    description: redact(payload.description),
+    metadata: {
+      ...metadata,
+      url: redact(metadata.url),
+      ...(metadata.elementSelector && { elementSelector: redact(metadata.elementSelector) }),
+      ...(Array.isArray(metadata.network) && {
+        network: metadata.network.map((request) => ({ ...request, url: redact(String(request?.url ?? '')) })),
+      }),
+      ...(metadata.custom && typeof metadata.custom === 'object' && {
+        custom: Object.fromEntries(Object.entries(metadata.custom).map(([key, value]) => [
+          key,
+          typeof value === 'string' ? redact(value) : value,
+        ])),
+      }),
+      ...(Array.isArray(metadata.errors) && {
+        errors: metadata.errors.map((error) => ({
+          ...error,
+          message: redact(String(error?.message ?? '')),
+          ...(error?.stack && { stack: redact(String(error.stack)) }),
+        })),
+      }),
+    },
+    ...(Array.isArray(payload.consoleLogs) && {
+      consoleLogs: payload.consoleLogs.map((entry) => ({ ...entry, message: redact(String(entry?.message ?? '')) })),
+    }),
+    ...(Array.isArray(payload.breadcrumbs) && {
+      breadcrumbs: payload.breadcrumbs.map((step) => ({ ...step, detail: redact(String(step?.detail ?? '')) })),
+    }),
+  };
+
+  return { payload: redacted, redactedCount };
+}
+
+// Issuer prefixes of the major networks (Visa, Mastercard, Amex, Discover, Diners, JCB,
+// UnionPay); epoch-millisecond timestamps and other IDs starting with 1 never match
+const CARD_PREFIX = /^(?:4|5[1-5]|2[2-7]|3[47]|3[068]|35|6[0245]|62)/;
+
+function isCardNumber(digits: string): boolean {
+  return CARD_PREFIX.test(digits) && passesLuhn(digits);
+}
+
+/**
+ * Card number checksum; rules out most long digit runs that aren't card numbers
+ */
+function passesLuhn(digits: string): boolean {
+  let sum = 0;
+  for (let i = 0; i < digits.length; i++) {
+    let digit = Number(digits[digits.length - 1 - i]);
+    if (i % 2 === 1) {
+      digit *= 2;
+      if (digit > 9) digit -= 9;
+    }
+    sum += digit;
+  }
+  return sum % 10 === 0;
+}
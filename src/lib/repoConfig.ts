@@ -0,0 +1,307 @@
+import { parse } from 'yaml';
+import type { RepoConfig, NotificationTarget, SpamConfig, RedactionConfig } from '../types';
+import { getRepoFile } from './github';
+import { MAX_DIFFICULTY } from './proofOfWork';
+
+// Config file locations, checked in order
+const CONFIG_PATHS = ['.bugdrop.yml', '.github/bugdrop.yml'];
+
+// How long a fetched config is reused before re-reading it from the repo
+const CACHE_TTL_MS = 5 * 60 * 1000;
+// How long a failed read is remembered, so an outage doesn't send every request to GitHub
+const FAILURE_TTL_MS = 5 * 1000;
+
+const DEFAULT_CONFIG: RepoConfig = {
+  categoryLabels: {
+    bug: 'bug',
+    feature: 'enhancement',
+    question: 'question',
+  },
+  labels: [],
+  allowedTags: [],
+  assignees: [],
+  titlePrefix: '',
+  screenshotBranch: 'bugdrop-assets',
+  screenshotRetentionDays: 0,  // Opt-in; cleanup never deletes from repos that didn't ask
+  detectDuplicates: true,
+  showMaintainerComments: false,
+  notifications: [],
+  challengeDifficulty: 0,      // Opt-in; existing widgets and API clients send no solution
+  spam: {
+    bannedWords: [],
+    bannedPatterns: [],
+    labelThreshold: 50,
+    rejectThreshold: 100,
+  },
+  redaction: {
+    enabled: true,
+    patterns: [],
+  },
+};
+
+const NOTIFICATION_FORMATS: NotificationTarget['format'][] = ['slack', 'discord', 'generic'];
+
+// Issue template locations: per-category first, then the shared template
+const TEMPLATE_DIR = '.bugdrop/ISSUE_TEMPLATE';
+const TEMPLATE_PATH = '.bugdrop/ISSUE_TEMPLATE.md';
+
+// In-memory cache per isolate, keyed by "owner/repo" plus the file kind
+const repoFileCache = new Map<string, { value?: unknown; error?: unknown; expiresAt: number }>();
+
+/**
+ * Get the BugDrop configuration for a repository
+ * Falls back to the defaults when the repo has no config file or it isn't valid YAML
+ * Throws when the file can't be fetched (GitHub errors, rate limits), so callers fail
+ * closed rather than dropping the repo's allowlist, challenge and spam settings
+ */
+export function getRepoConfig(
+  token: string,
+  owner: string,
+  repo: string
+): Promise<RepoConfig> {
+  return cached(owner, repo, 'config', async () => {
+    const content = await readFirstFile(token, owner, repo, CONFIG_PATHS);
+    if (content === null) {
+      return DEFAULT_CONFIG;
+    }
+    try {
+      return parseRepoConfig(content);
+    } catch (error) {
+      console.error(`[BugDrop] Invalid config for ${owner}/${repo}, using defaults:`, error);
+      return DEFAULT_CONFIG;
+    }
+  });
+}
+
+/**
+ * Get the repository's issue body template for a category
+ * Returns null when the repo doesn't define one (the built-in layout is used)
+ */
+export function getIssueTemplate(
+  token: string,
+  owner: string,
+  repo: string,
+  category: string
+): Promise<string | null> {
+  const paths = [`${TEMPLATE_DIR}/${category}.md`, TEMPLATE_PATH];
+  return cached(owner, repo, `template:${category}`, () =>
+    readFirstFile(token, owner, repo, paths)
+  ).catch((error) => {
+    console.error(`[BugDrop] Failed to load template:${category} for ${owner}/${repo}:`, error);
+    return null;
+  });
+}
+
+/**
+ * Drop a repository's cached config and templates so the next request re-reads them
+ */
+export function invalidateRepoConfig(owner: string, repo: string): void {
+  const prefix = `${owner}/${repo}:`.toLowerCase();
+  for (const key of repoFileCache.keys()) {
+    if (key.startsWith(prefix)) {
+      repoFileCache.delete(key);
+    }
+  }
+}
+
+async function cached<T>(
+  owner: string,
+  repo: string,
+  kind: string,
+  load: () => Promise<T>
+): Promise<T> {
+  const key = `${owner}/${repo}:${kind}`.toLowerCase();
+  const entry = repoFileCache.get(key);
+  if (entry && entry.expiresAt > Date.now()) {
+    if (entry.error) {
+      throw entry.error;
+    }
+    return entry.value as T;
+  }
+
+  try {
+    const value = await load();
+    repoFileCache.set(key, { value, expiresAt: Date.now() + CACHE_TTL_MS });
+    return value;
+  } catch (error) {
+    repoFileCache.set(key, { error, expiresAt: Date.now() + FAILURE_TTL_MS });
+    throw error;
+  }
+}
+
+async function readFirstFile(
+  token: string,
+  owner: string,
+  repo: string,
+  paths: string[]
+): Promise<string | null> {
+  for (const path of paths) {
+    const content = await getRepoFile(token, owner, repo, path);
+    if (content !== null) {
+      return content;
+    }
+  }
+  return null;
+}
+
+/**
+ * Parse a .bugdrop.yml file, ignoring unknown or malformed settings
+ */
+function parseRepoConfig(content: string): RepoConfig {
+  const raw = parse(content) as Record<string, unknown> | null;
+  if (!raw || typeof raw !== 'object') {
+    return DEFAULT_CONFIG;
+  }
+
+  const config: RepoConfig = {
+    ...DEFAULT_CONFIG,
+    categoryLabels: { ...DEFAULT_CONFIG.categoryLabels },
+  };
+
+  if (isRecord(raw.categoryLabels)) {
+    for (const [category, label] of Object.entries(raw.categoryLabels)) {
+      if (typeof label === 'string' && label && category !== '__proto__') {
+        config.categoryLabels[category] = label;
+      }
+    }
+  }
+
+  if (isStringList(raw.labels)) config.labels = raw.labels;
+  if (isStringList(raw.allowedTags)) config.allowedTags = raw.allowedTags;
+  if (isStringList(raw.assignees)) config.assignees = raw.assignees;
+  if (typeof raw.titlePrefix === 'string') config.titlePrefix = raw.titlePrefix;
+  if (typeof raw.maxScreenshotSizeMB === 'number' && raw.maxScreenshotSizeMB > 0) {
+    config.maxScreenshotSizeMB = raw.maxScreenshotSizeMB;
+  }
+  if (typeof raw.screenshotBranch === 'string' && isValidBranchName(raw.screenshotBranch)) {
+    config.screenshotBranch = raw.screenshotBranch;
+  }
+  if (Number.isInteger(raw.screenshotRetentionDays) && (raw.screenshotRetentionDays as number) >= 0) {
+    config.screenshotRetentionDays = raw.screenshotRetentionDays as number;
+  }
+  if (isStringList(raw.allowedOrigins)) config.allowedOrigins = raw.allowedOrigins;
+  if (typeof raw.detectDuplicates === 'boolean') config.detectDuplicates = raw.detectDuplicates;
+  if (typeof raw.showMaintainerComments === 'boolean') {
+    config.showMaintainerComments = raw.showMaintainerComments;
+  }
+  if (typeof raw.identityPublicKey === 'string' && raw.identityPublicKey.includes('PUBLIC KEY')) {
+    config.identityPublicKey = raw.identityPublicKey;
+  }
+  if (
+    Number.isInteger(raw.challengeDifficulty) &&
+    (raw.challengeDifficulty as number) >= 0 &&
+    (raw.challengeDifficulty as number) <= MAX_DIFFICULTY
+  ) {
+    config.challengeDifficulty = raw.challengeDifficulty as number;
+  }
+  if (isRecord(raw.spam)) {
+    config.spam = parseSpamConfig(raw.spam);
+  }
+  if (isRecord(raw.redaction)) {
+    config.redaction = parseRedactionConfig(raw.redaction);
+  }
+  if (Array.isArray(raw.notifications)) {
+    config.notifications = raw.notifications.flatMap(parseNotificationTarget);
+  }
+
+  return config;
+}
+
+/**
+ * Notification entries need an https URL; the format defaults to the generic payload
+ */
+function parseNotificationTarget(value: unknown): NotificationTarget[] {
+  if (!isRecord(value) || typeof value.url !== 'string' || !value.url.startsWith('https://')) {
+    return [];
+  }
+  const format = value.format === undefined
+    ? 'generic'
+    : NOTIFICATION_FORMATS.find((f) => f === value.format);
+  return format ? [{ url: value.url, format }] : [];
+}
+
+function parseSpamConfig(raw: Record<string, unknown>): SpamConfig {
+  const spam = { ...DEFAULT_CONFIG.spam };
+  if (isStringList(raw.bannedWords)) spam.bannedWords = raw.bannedWords.filter(Boolean);
+  if (isStringList(raw.bannedPatterns)) {
+    spam.bannedPatterns = raw.bannedPatterns.filter(isValidPattern);
+  }
+  if (typeof raw.labelThreshold === 'number') spam.labelThreshold = raw.labelThreshold;
+  if (typeof raw.rejectThreshold === 'number') spam.rejectThreshold = raw.rejectThreshold;
+  return spam;
+}
+
+function parseRedactionConfig(raw: Record<string, unknown>): RedactionConfig {
+  const redaction = { ...DEFAULT_CONFIG.redaction };
+  if (typeof raw.enabled === 'boolean') redaction.enabled = raw.enabled;
+  if (isStringList(raw.patterns)) redaction.patterns = raw.patterns.filter(isValidPattern);
+  return redaction;
+}
+
+/**
+ * Patterns that don't compile are dropped rather than failing every submission
+ * (as are ones matching the empty string, such as "" or "\d*", since they match
+ * everywhere), and so are patterns that can backtrack catastrophically on submitted text
+ */
+function isValidPattern(pattern: string): boolean {
+  if (!pattern || hasNestedQuantifier(pattern)) return false;
+  try {
+    return !new RegExp(pattern, 'i').test('');
+  } catch {
+    return false;
+  }
+}
+
+/**
+ * Whether a quantified group contains a quantifier itself, e.g. "(a+)+" or "(\w*x)*",
+ * the shape behind most exponential-time regexes
+ */
+function hasNestedQuantifier(pattern: string): boolean {
+  // One entry per open group: does it contain a quantifier?
+  const groups: boolean[] = [];
+  let inClass = false;
+
+  for (let i = 0; i < pattern.length; i++) {
+    const char = pattern[i];
+    if (char === '\\') {
+      i++;
+    } else if (inClass) {
+      inClass = char !== ']';
+    } else if (char === '[') {
+      inClass = true;
+    } else if (char === '(') {
+      groups.push(false);
+    } else if (char === ')') {
+      const quantified = groups.pop() ?? false;
+      if (quantified && /[*+{]/.test(pattern[i + 1] ?? '')) {
+        return true;
+      }
+      // The group's quantifier (if any) is inside its parent
+      if (groups.length > 0 && quantified) {
+        groups[groups.length - 1] = true;
+      }
+    } else if (/[*+{]/.test(char) && groups.length > 0) {
+      groups[groups.length - 1] = true;
+    }
+  }
+  return false;
+}
+
+/**
+ * Conservative subset of git's ref name rules
+ */
+function isValidBranchName(name: string): boolean {
+  return /^[\w][\w./-]*$/.test(name) &&
+    !name.includes('..') &&
+    !name.includes('//') &&
+    !name.endsWith('/') &&
+    !name.endsWith('.lock');
+}
+
+function isRecord(value: unknown): value is Record<string, unknown> {
+  return typeof value === 'object' && value !== null && !Array.isArray(value);
+}
+
+function isStringList(value: unknown): value is string[] {
+  return Array.isArray(value) && value.every((item) => typeof item === 'string');
+}
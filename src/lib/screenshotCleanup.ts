@@ -0,0 +1,192 @@
+import type { Env } from '../types';
+import {
+  listInstallationIds,
+  listInstallationRepos,
+  listClosedIssues,
+  listRepoComments,
+} from './github';
+import { listBranchFiles, deleteBranchFiles } from './assetBranch';
+import { getRepoConfig } from './repoConfig';
+
+const SCREENSHOT_DIR = '.bugdrop/screenshots';
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+// Each run stays well inside the Workers subrequest limit: at most this many repos
+// (around 30 GitHub requests each), continuing where the last run stopped
+const MAX_REPOS_PER_RUN = 10;
+// Pages (100 items) of closed issues per label, and of comments, read per repo
+const MAX_PAGES = 5;
+
+// Where the next run starts, kept in STATE KV
+const CURSOR_KEY = 'cleanup:cursor';
+
+interface CleanupCursor {
+  installation: number;   // Index into the installation list
+  offset: number;         // Repos of that installation already handled
+}
+
+interface CleanupReport {
+  repo: string;           // "owner/repo"
+  expired: number;        // Screenshots past the retention period
+  deleted: string[];      // Paths removed (or that would be, in a dry run)
+  dryRun: boolean;
+  error?: string;
+}
+
+/**
+ * Delete expired screenshots from installed repos' screenshot branches, a batch of repos per run
+ * A screenshot is removed once it is older than the repo's screenshotRetentionDays
+ * and the issue it was attached to is closed; each repo gets at most one commit
+ * With SCREENSHOT_CLEANUP_DRY_RUN=true, only reports what would be deleted
+ */
+export async function cleanupScreenshots(env: Env, now = Date.now()): Promise<CleanupReport[]> {
+  const dryRun = env.SCREENSHOT_CLEANUP_DRY_RUN === 'true';
+  const reports: CleanupReport[] = [];
+
+  const installations = await listInstallationIds(env);
+  let { installation, offset } = await readCursor(env);
+  if (installation >= installations.length) {
+    installation = 0;
+    offset = 0;
+  }
+
+  while (reports.length < MAX_REPOS_PER_RUN && installation < installations.length) {
+    let repos: Awaited<ReturnType<typeof listInstallationRepos>> = [];
+    try {
+      repos = await listInstallationRepos(env, installations[installation]);
+    } catch (error) {
+      console.error(`[Cleanup] Failed to list repos of installation ${installations[installation]}:`, error);
+    }
+
+    const batch = repos.slice(offset, offset + MAX_REPOS_PER_RUN - reports.length);
+    for (const { owner, repo, token } of batch) {
+      reports.push(await cleanupRepo(token, owner, repo, now, dryRun));
+    }
+
+    offset += batch.length;
+    if (offset >= repos.length) {
+      installation++;
+      offset = 0;
+    }
+  }
+
+  // After the last installation, the next run starts over
+  await writeCursor(env, installation < installations.length ? { installation, offset } : { installation: 0, offset: 0 });
+  return reports;
+}
+
+async function cleanupRepo(
+  token: string,
+  owner: string,
+  repo: string,
+  now: number,
+  dryRun: boolean
+): Promise<CleanupReport> {
+  const report: CleanupReport = { repo: `${owner}/${repo}`, expired: 0, deleted: [], dryRun };
+  try {
+    await cleanupRepoScreenshots(token, owner, repo, now, report);
+  } catch (error) {
+    report.error = error instanceof Error ? error.message : String(error);
+    console.error(`[Cleanup] Failed to clean up ${owner}/${repo}:`, error);
+  }
+
+  if (report.deleted.length > 0) {
+    console.log(
+      `[Cleanup] ${report.repo}: ${dryRun ? 'would delete' : 'deleted'} ` +
+      `${report.deleted.length} of ${report.expired} expired screenshots`,
+      report.deleted
+    );
+  }
+  return report;
+}
+
+async function cleanupRepoScreenshots(
+  token: string,
+  owner: string,
+  repo: string,
+  now: number,
+  report: CleanupReport
+): Promise<void> {
+  const config = await getRepoConfig(token, owner, repo);
+  if (config.screenshotRetentionDays <= 0) {
+    return;
+  }
+
+  const files = await listBranchFiles(token, owner, repo, config.screenshotBranch, SCREENSHOT_DIR);
+  if (!files) {
+    return;
+  }
+
+  const cutoff = now - config.screenshotRetentionDays * DAY_MS;
+  const expired = files.paths.filter((path) => {
+    const uploadedAt = getUploadTime(path);
+    return uploadedAt !== null && uploadedAt < cutoff;
+  });
+  report.expired = expired.length;
+  if (expired.length === 0) {
+    return;
+  }
+
+  // Issues and comments linking a screenshot were created after it was uploaded,
+  // so nothing last updated before the oldest expired screenshot needs reading
+  const since = new Date(Math.min(...expired.map((path) => getUploadTime(path)!))).toISOString();
+
+  // Screenshots are linked from the body of the issue they were submitted with...
+  const closedIssues = new Set<number>();
+  const references: string[] = [];
+  for (const label of ['bugdrop', 'bugdrop-spam']) {
+    for (const issue of await listClosedIssues(token, owner, repo, label, since, MAX_PAGES)) {
+      closedIssues.add(issue.number);
+      if (issue.body) references.push(issue.body);
+    }
+  }
+  const isReferenced = (path: string) => references.some((body) => body.includes(path));
+
+  // ...or, for repeat reports, from a comment on the issue they duplicate
+  if (closedIssues.size > 0 && !expired.every(isReferenced)) {
+    for (const comment of await listRepoComments(token, owner, repo, since, MAX_PAGES)) {
+      const issueNumber = Number(comment.issue_url.split('/').pop());
+      if (closedIssues.has(issueNumber) && comment.body?.includes(SCREENSHOT_DIR)) {
+        references.push(comment.body);
+      }
+    }
+  }
+  const deletable = expired.filter(isReferenced);
+
+  if (deletable.length > 0 && !report.dryRun) {
+    await deleteBranchFiles(
+      token,
+      owner,
+      repo,
+      config.screenshotBranch,
+      files,
+      deletable,
+      `Remove ${deletable.length} expired BugDrop screenshot${deletable.length === 1 ? '' : 's'}`
+    );
+  }
+  report.deleted = deletable;
+}
+
+async function readCursor(env: Env): Promise<CleanupCursor> {
+  if (!env.STATE) {
+    console.warn(`[Cleanup] STATE KV not configured; only the first ${MAX_REPOS_PER_RUN} repos are cleaned up`);
+    return { installation: 0, offset: 0 };
+  }
+  const cursor = await env.STATE.get<CleanupCursor>(CURSOR_KEY, 'json');
+  return cursor && Number.isInteger(cursor.installation) && Number.isInteger(cursor.offset)
+    ? cursor
+    : { installation: 0, offset: 0 };
+}
+
+async function writeCursor(env: Env, cursor: CleanupCursor): Promise<void> {
+  await env.STATE?.put(CURSOR_KEY, JSON.stringify(cursor));
+}
+
+/**
+ * Screenshots are named after their upload time, e.g. 1700000000000.png
+ */
+function getUploadTime(path: string): number | null {
+  const match = path.match(/\/(\d{13})[^/]*$/);
+  return match ? Number(match[1]) : null;
+}
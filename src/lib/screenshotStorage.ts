@@ -0,0 +1,253 @@
+import type { Env } from '../types';
+import { uploadScreenshotAsAsset, uploadAttachmentAsAsset } from './assetBranch';
+
+type ScreenshotBackend = 'repo' | 'r2' | 'kv';
+
+// Types served from /api/screenshots; anything else is stored as PNG
+const SCREENSHOT_TYPES = ['image/png', 'image/jpeg', 'image/webp'];
+
+// IDs are 128 random bits, so stored screenshots can't be enumerated
+const SCREENSHOT_ID_PATTERN = /^[0-9a-f]{32}$/;
+
+interface ScreenshotStore {
+  backend: ScreenshotBackend;
+  // Stores the screenshot and returns the URL to embed in the issue
+  save(screenshot: string | Blob): Promise<string>;
+  // Stores an attached file and returns the URL to link from the issue
+  saveAttachment(file: File): Promise<string>;
+}
+
+interface ScreenshotTarget {
+  token: string;
+  owner: string;
+  repo: string;
+  branch: string;  // Branch that repo-stored screenshots are committed to
+  baseUrl: string; // Worker origin, for /api/screenshots URLs
+}
+
+interface StoredScreenshot {
+  body: ReadableStream | ArrayBuffer;
+  contentType: string;
+}
+
+interface StoredAttachment extends StoredScreenshot {
+  filename: string;
+}
+
+/**
+ * Store a submission's screenshot with the configured backend (SCREENSHOT_STORAGE),
+ * falling back to STATE KV when that fails and SCREENSHOT_FALLBACK allows it, and return its URL
+ */
+export async function saveScreenshot(
+  env: Env,
+  target: ScreenshotTarget,
+  screenshot: string | Blob
+): Promise<string> {
+  return saveWithFallback(env, target, 'screenshot', (store) => store.save(screenshot));
+}
+
+/**
+ * Store an attached file the same way as screenshots, and return its URL
+ */
+export async function saveAttachment(
+  env: Env,
+  target: ScreenshotTarget,
+  file: File
+): Promise<string> {
+  return saveWithFallback(env, target, 'attachment', (store) => store.saveAttachment(file));
+}
+
+async function saveWithFallback(
+  env: Env,
+  target: ScreenshotTarget,
+  kind: string,
+  save: (store: ScreenshotStore) => Promise<string>
+): Promise<string> {
+  let lastError: unknown = new Error('No screenshot storage available');
+  for (const store of getScreenshotStores(env, target)) {
+    try {
+      return await save(store);
+    } catch (error) {
+      console.error(`[Screenshots] Failed to store ${kind} in ${store.backend}:`, error);
+      lastError = error;
+    }
+  }
+  throw lastError;
+}
+
+/**
+ * Read a screenshot saved to R2 or KV, or null when the ID is unknown
+ * Both are checked, so URLs keep working after switching backends
+ */
+export async function loadScreenshot(env: Env, id: string): Promise<StoredScreenshot | null> {
+  if (!SCREENSHOT_ID_PATTERN.test(id)) {
+    return null;
+  }
+
+  if (env.SCREENSHOTS) {
+    const object = await env.SCREENSHOTS.get(`screenshots/${id}`);
+    if (object) {
+      return { body: object.body, contentType: object.httpMetadata?.contentType || 'image/png' };
+    }
+  }
+
+  if (env.STATE) {
+    const { value, metadata } = await env.STATE.getWithMetadata<{ contentType?: string }>(
+      `screenshot:${id}`,
+      'arrayBuffer'
+    );
+    if (value) {
+      return { body: value, contentType: metadata?.contentType || 'image/png' };
+    }
+  }
+
+  return null;
+}
+
+/**
+ * Read an attachment saved to R2 or KV, or null when the ID is unknown
+ */
+export async function loadAttachment(env: Env, id: string): Promise<StoredAttachment | null> {
+  if (!SCREENSHOT_ID_PATTERN.test(id)) {
+    return null;
+  }
+
+  if (env.SCREENSHOTS) {
+    const object = await env.SCREENSHOTS.get(`attachments/${id}`);
+    if (object) {
+      return {
+        body: object.body,
+        contentType: object.httpMetadata?.contentType || 'application/octet-stream',
+        filename: object.customMetadata?.filename || 'attachment',
+      };
+    }
+  }
+
+  if (env.STATE) {
+    const { value, metadata } = await env.STATE.getWithMetadata<{ contentType?: string; filename?: string }>(
+      `attachment:${id}`,
+      'arrayBuffer'
+    );
+    if (value) {
+      return {
+        body: value,
+        contentType: metadata?.contentType || 'application/octet-stream',
+        filename: metadata?.filename || 'attachment',
+      };
+    }
+  }
+
+  return null;
+}
+
+/**
+ * Backends to try in order: the configured one, then KV if the operator opted in
+ * (a repo's screenshots would otherwise move from a private branch to public URLs silently)
+ */
+function getScreenshotStores(env: Env, target: ScreenshotTarget): ScreenshotStore[] {
+  const backend = (env.SCREENSHOT_STORAGE || 'repo').toLowerCase();
+  const stores: ScreenshotStore[] = [];
+
+  if (backend === 'r2') {
+    if (env.SCREENSHOTS) {
+      stores.push(r2Store(env.SCREENSHOTS, target.baseUrl));
+    } else {
+      console.warn('[Screenshots] SCREENSHOT_STORAGE is "r2" but no SCREENSHOTS bucket is bound');
+    }
+  } else if (backend !== 'kv') {
+    stores.push(repoStore(target));
+  }
+
+  const fallback = (env.SCREENSHOT_FALLBACK || '').toLowerCase() === 'kv';
+  if (env.STATE && (backend === 'kv' || fallback)) {
+    stores.push(kvStore(env.STATE, target.baseUrl));
+  }
+  return stores;
+}
+
+/**
+ * Commit screenshots to a branch of the repository (needs Contents:write)
+ */
+function repoStore({ token, owner, repo, branch }: ScreenshotTarget): ScreenshotStore {
+  return {
+    backend: 'repo',
+    save: (screenshot) => uploadScreenshotAsAsset(token, owner, repo, screenshot, branch),
+    saveAttachment: (file) => uploadAttachmentAsAsset(token, owner, repo, file, branch),
+  };
+}
+
+function r2Store(bucket: R2Bucket, baseUrl: string): ScreenshotStore {
+  return {
+    backend: 'r2',
+    async save(screenshot) {
+      const { bytes, contentType } = await readScreenshot(screenshot);
+      const id = createScreenshotId();
+      await bucket.put(`screenshots/${id}`, bytes, { httpMetadata: { contentType } });
+      return screenshotUrl(baseUrl, id);
+    },
+    async saveAttachment(file) {
+      const id = createScreenshotId();
+      await bucket.put(`attachments/${id}`, await file.arrayBuffer(), {
+        httpMetadata: { contentType: file.type },
+        customMetadata: { filename: file.name },
+      });
+      return attachmentUrl(baseUrl, id);
+    },
+  };
+}
+
+function kvStore(kv: KVNamespace, baseUrl: string): ScreenshotStore {
+  return {
+    backend: 'kv',
+    async save(screenshot) {
+      const { bytes, contentType } = await readScreenshot(screenshot);
+      const id = createScreenshotId();
+      await kv.put(`screenshot:${id}`, bytes, { metadata: { contentType } });
+      return screenshotUrl(baseUrl, id);
+    },
+    async saveAttachment(file) {
+      const id = createScreenshotId();
+      await kv.put(`attachment:${id}`, await file.arrayBuffer(), {
+        metadata: { contentType: file.type, filename: file.name },
+      });
+      return attachmentUrl(baseUrl, id);
+    },
+  };
+}
+
+async function readScreenshot(
+  screenshot: string | Blob
+): Promise<{ bytes: Uint8Array; contentType: string }> {
+  let bytes: Uint8Array;
+  let contentType: string;
+  if (typeof screenshot === 'string') {
+    const match = screenshot.match(/^data:(image\/[\w+.-]+);base64,(.*)$/s);
+    if (!match) {
+      throw new Error('Screenshot is not a base64 image data URL');
+    }
+    contentType = match[1];
+    bytes = Uint8Array.from(atob(match[2]), (char) => char.charCodeAt(0));
+  } else {
+    contentType = screenshot.type;
+    bytes = new Uint8Array(await screenshot.arrayBuffer());
+  }
+
+  return {
+    bytes,
+    contentType: SCREENSHOT_TYPES.includes(contentType) ? contentType : 'image/png',
+  };
+}
+
+function createScreenshotId(): string {
+  return Array.from(crypto.getRandomValues(new Uint8Array(16)), (b) =>
+    b.toString(16).padStart(2, '0')
+  ).join('');
+}
+
+function screenshotUrl(baseUrl: string, id: string): string {
+  return `${baseUrl}/api/screenshots/${id}`;
+}
+
+function attachmentUrl(baseUrl: string, id: string): string {
+  return `${baseUrl}/api/attachments/${id}`;
+}
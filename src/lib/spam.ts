@@ -0,0 +1,119 @@
+import type { Env, FeedbackPayload, SpamConfig } from '../types';
+
+// Humans take a few seconds to write even a one-line report
+const MIN_FILL_TIME_MS = 3000;
+
+// Repeated descriptions are counted per repo over this window
+const REPEAT_WINDOW_SECONDS = 24 * 60 * 60;
+
+// Description hash -> submissions seen (per isolate, and in STATE KV when it is bound)
+const seenDescriptions = new Map<string, { count: number; expiresAt: number }>();
+
+interface SpamVerdict {
+  score: number;
+  reasons: string[];
+  action: 'accept' | 'label' | 'reject';
+}
+
+/**
+ * Score a submission for spam signals and decide what to do with it
+ * Also counts the description, so repeats of it score higher next time
+ */
+export async function scoreSubmission(
+  env: Env,
+  owner: string,
+  repo: string,
+  payload: FeedbackPayload,
+  config: SpamConfig
+): Promise<SpamVerdict> {
+  const reasons: string[] = [];
+  let score = 0;
+  const add = (points: number, reason: string) => {
+    score += points;
+    reasons.push(reason);
+  };
+
+  // Hidden field that only bots fill in
+  if (payload.honeypot) {
+    add(100, 'honeypot field filled');
+  }
+
+  if (typeof payload.formFillMs === 'number' && payload.formFillMs < MIN_FILL_TIME_MS) {
+    add(40, `form filled in ${payload.formFillMs}ms`);
+  }
+
+  const text = `${payload.title}\n${payload.description}`;
+  const links = text.match(/https?:\/\/\S+/gi) || [];
+  const words = text.split(/\s+/).filter(Boolean).length;
+  if (links.length >= 3 || (links.length >= 2 && links.length / words > 0.2)) {
+    add(30, `${links.length} links in ${words} words`);
+  }
+
+  const previous = await countDescription(env, owner, repo, payload.description);
+  if (previous >= 2) {
+    add(40, `description already submitted ${previous} times`);
+  }
+
+  const lowerText = text.toLowerCase();
+  for (const word of config.bannedWords) {
+    if (lowerText.includes(word.toLowerCase())) {
+      add(50, `banned word "${word}"`);
+    }
+  }
+  for (const pattern of config.bannedPatterns) {
+    if (new RegExp(pattern, 'i').test(text)) {
+      add(50, `banned pattern /${pattern}/`);
+    }
+  }
+
+  let action: SpamVerdict['action'] = 'accept';
+  if (score >= config.rejectThreshold) {
+    action = 'reject';
+  } else if (score >= config.labelThreshold) {
+    action = 'label';
+  }
+
+  return { score, reasons, action };
+}
+
+/**
+ * Count a description for the repo, returning how many times it was seen before
+ */
+async function countDescription(
+  env: Env,
+  owner: string,
+  repo: string,
+  description: string
+): Promise<number> {
+  const normalized = description.toLowerCase().replace(/\s+/g, ' ').trim();
+  const digest = await crypto.subtle.digest('SHA-256', new TextEncoder().encode(normalized));
+  const hash = Array.from(new Uint8Array(digest).slice(0, 12), (b) =>
+    b.toString(16).padStart(2, '0')
+  ).join('');
+  const key = `spam:${owner}/${repo}:${hash}`.toLowerCase();
+
+  const now = Date.now();
+  if (seenDescriptions.size > 10000) {
+    for (const [k, e] of seenDescriptions) {
+      if (e.expiresAt <= now) seenDescriptions.delete(k);
+    }
+  }
+
+  let entry = seenDescriptions.get(key);
+  if (!entry || entry.expiresAt <= now) {
+    entry = { count: 0, expiresAt: now + REPEAT_WINDOW_SECONDS * 1000 };
+  }
+
+  let previous = entry.count;
+  if (env.STATE) {
+    try {
+      previous = Math.max(previous, parseInt(await env.STATE.get(key) || '0', 10));
+      await env.STATE.put(key, String(previous + 1), { expirationTtl: REPEAT_WINDOW_SECONDS });
+    } catch (error) {
+      console.error('[Spam] Failed to count description:', error);
+    }
+  }
+
+  seenDescriptions.set(key, { count: previous + 1, expiresAt: entry.expiresAt });
+  return previous;
+}
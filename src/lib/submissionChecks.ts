@@ -0,0 +1,63 @@
+import type { Env, FeedbackPayload, RepoConfig, VerifiedSubmitter } from '../types';
+import { checkProofOfWork } from './proofOfWork';
+import { scoreSubmission } from './spam';
+
+// Spam verdict as returned to the client: the reasons stay in the Worker's logs
+interface SpamResult {
+  score: number;
+  action: 'accept' | 'label' | 'reject';
+}
+
+/**
+ * Error raised when a submission fails an anti-abuse check, carrying the API error code
+ */
+export class SubmissionRejectedError extends Error {
+  constructor(message: string, readonly code: string, readonly spam?: SpamResult) {
+    super(message);
+    this.name = 'SubmissionRejectedError';
+  }
+}
+
+/**
+ * Run the anti-abuse checks on a submission: the proof-of-work challenge for anonymous
+ * submitters, then spam scoring. Returns the spam verdict, or throws SubmissionRejectedError
+ */
+export async function checkSubmission(
+  env: Env,
+  owner: string,
+  repo: string,
+  payload: FeedbackPayload,
+  config: RepoConfig,
+  identity: VerifiedSubmitter | null
+): Promise<SpamResult> {
+  // Anonymous submissions must include a solved proof-of-work challenge
+  if (env.SIGNING_SECRET && config.challengeDifficulty > 0 && !identity) {
+    const challengeError = await checkProofOfWork(
+      env,
+      env.SIGNING_SECRET,
+      `${owner}/${repo}`,
+      config.challengeDifficulty,
+      payload.proofOfWork
+    );
+    if (challengeError) {
+      throw new SubmissionRejectedError(
+        challengeError === 'CHALLENGE_REQUIRED'
+          ? 'A solved challenge from /api/challenge is required'
+          : 'Invalid, expired or already used challenge solution',
+        challengeError
+      );
+    }
+  }
+
+  // The reasons are only logged: returned to the client, they would let spammers
+  // read (and probe) the repo's banned words and patterns
+  const verdict = await scoreSubmission(env, owner, repo, payload, config.spam);
+  if (verdict.action !== 'accept') {
+    console.warn(`[Spam] ${owner}/${repo} scored ${verdict.score} (${verdict.action}): ${verdict.reasons.join('; ')}`);
+  }
+  const spam = { score: verdict.score, action: verdict.action };
+  if (spam.action === 'reject') {
+    throw new SubmissionRejectedError('Submission rejected as spam', 'SPAM_REJECTED', spam);
+  }
+  return spam;
+}
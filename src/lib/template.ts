@@ -0,0 +1,86 @@
+/**
+ * Minimal template renderer for repository-defined issue templates
+ *
+ * Supports:
+ * - {{path.to.value}} placeholders (missing values render as empty strings)
+ * - {{#if path}}...{{else}}...{{/if}} blocks, which may be nested
+ */
+
+type TemplateContext = Record<string, unknown>;
+
+interface IfNode {
+  condition: string;
+  then: TemplateNode[];
+  otherwise: TemplateNode[];
+}
+
+type TemplateNode = string | { value: string } | IfNode;
+
+const TAG_PATTERN = /{{\s*([#/]?)(\w+(?:\.\w+)*)(?:\s+(\w+(?:\.\w+)*))?\s*}}/g;
+
+export function renderTemplate(template: string, context: TemplateContext): string {
+  return renderNodes(parseTemplate(template), context);
+}
+
+function parseTemplate(template: string): TemplateNode[] {
+  const root: TemplateNode[] = [];
+  // Open {{#if}} blocks; the innermost one receives new nodes
+  const stack: Array<{ node: IfNode; inElse: boolean }> = [];
+  const current = () => {
+    const top = stack[stack.length - 1];
+    if (!top) return root;
+    return top.inElse ? top.node.otherwise : top.node.then;
+  };
+
+  let lastIndex = 0;
+  for (const match of template.matchAll(TAG_PATTERN)) {
+    const [tag, sigil, name, argument] = match;
+    current().push(template.slice(lastIndex, match.index));
+    lastIndex = match.index! + tag.length;
+
+    if (sigil === '#' && name === 'if' && argument) {
+      const node: IfNode = { condition: argument, then: [], otherwise: [] };
+      current().push(node);
+      stack.push({ node, inElse: false });
+    } else if (sigil === '/' && name === 'if' && stack.length > 0) {
+      stack.pop();
+    } else if (!sigil && name === 'else' && stack.length > 0) {
+      stack[stack.length - 1].inElse = true;
+    } else if (!sigil && !argument) {
+      current().push({ value: name });
+    } else {
+      // Unknown tags are kept verbatim
+      current().push(tag);
+    }
+  }
+  current().push(template.slice(lastIndex));
+
+  return root;
+}
+
+function renderNodes(nodes: TemplateNode[], context: TemplateContext): string {
+  return nodes.map((node) => {
+    if (typeof node === 'string') {
+      return node;
+    }
+    if ('value' in node) {
+      const value = lookup(context, node.value);
+      return value === undefined || value === null ? '' : String(value);
+    }
+    return isTruthy(lookup(context, node.condition))
+      ? renderNodes(node.then, context)
+      : renderNodes(node.otherwise, context);
+  }).join('');
+}
+
+function lookup(context: TemplateContext, path: string): unknown {
+  return path.split('.').reduce<unknown>((value, key) => {
+    if (value === null || typeof value !== 'object') return undefined;
+    return (value as Record<string, unknown>)[key];
+  }, context);
+}
+
+function isTruthy(value: unknown): boolean {
+  if (Array.isArray(value)) return value.length > 0;
+  return Boolean(value);
+}
@@ -0,0 +1,62 @@
+import type { Env } from '../types';
+import type { FeedbackRequest } from './feedbackRequest';
+import { saveScreenshot, saveAttachment } from './screenshotStorage';
+
+type UploadTarget = Parameters<typeof saveScreenshot>[1];
+
+// Uploaded files linked from the issue
+export interface IssueUploads {
+  screenshotUrl?: string;   // Screenshot as captured
+  annotatedUrl?: string;    // Copy with the reporter's annotations, shown in place of the original
+  attachments?: Array<{ name: string; url: string; size: number }>;
+  domSnapshot?: { url: string; viewerUrl?: string }; // Gzipped page HTML, and its viewer when the Worker serves it
+}
+
+/**
+ * Store a submission's screenshot, annotated copy, attachments and DOM snapshot
+ * (in the repo, R2 or KV) and return their URLs
+ * Uploads that fail are logged and left out of the issue rather than failing the submission
+ */
+export async function storeUploads(
+  env: Env,
+  target: UploadTarget,
+  request: FeedbackRequest
+): Promise<IssueUploads> {
+  const storeScreenshot = async (image?: string | Blob) => {
+    if (!image) return undefined;
+    try {
+      return await saveScreenshot(env, target, image);
+    } catch (error) {
+      console.error('Failed to upload screenshot:', error);
+      return undefined;
+    }
+  };
+
+  // One after the other, since both may be committed to the same branch
+  const screenshotUrl = await storeScreenshot(request.screenshot);
+  const annotatedUrl = await storeScreenshot(request.annotations);
+
+  const attachments: NonNullable<IssueUploads['attachments']> = [];
+  for (const file of request.attachments) {
+    try {
+      const url = await saveAttachment(env, target, file);
+      attachments.push({ name: file.name, url, size: file.size });
+    } catch (error) {
+      console.error(`Failed to upload attachment ${file.name}:`, error);
+    }
+  }
+
+  let domSnapshot: IssueUploads['domSnapshot'];
+  if (request.domSnapshot) {
+    try {
+      const url = await saveAttachment(env, target, request.domSnapshot);
+      // Only snapshots this Worker serves (R2 or KV) can be opened in the viewer
+      const id = url.startsWith(`${target.baseUrl}/api/attachments/`) ? url.split('/').pop() : undefined;
+      domSnapshot = { url, ...(id && { viewerUrl: `${target.baseUrl}/api/snapshots/${id}` }) };
+    } catch (error) {
+      console.error('Failed to upload DOM snapshot:', error);
+    }
+  }
+
+  return { screenshotUrl, annotatedUrl, attachments, domSnapshot };
+}
@@ -0,0 +1,172 @@
+import type { Env, GitHubWebhookPayload } from '../types';
+import { forgetInstallation } from './installationCache';
+import { invalidateRepoConfig } from './repoConfig';
+
+// Closed issues are remembered as long as a receipt for them can still be used
+const CLOSED_ISSUE_TTL_SECONDS = 180 * 24 * 60 * 60;
+
+// Issue events that change what the status endpoint reports for a closed issue
+const CLOSED_ISSUE_ACTIONS = ['closed', 'labeled', 'unlabeled'];
+
+type WebhookResult = 'invalidated' | 'recorded' | 'cleared' | 'ignored';
+
+// Status of a closed BugDrop issue, as served by GET /api/feedback/:owner/:repo/:number
+interface ClosedIssueStatus {
+  repo: string;
+  issueNumber: number;
+  state: 'closed';
+  stateReason: string | null;
+  labels: string[];
+  updatedAt: string;
+  closedAt: string | null;
+}
+
+/**
+ * Verify a delivery's X-Hub-Signature-256 header ("sha256=<hex HMAC of the raw body>")
+ */
+export async function verifyWebhookSignature(
+  secret: string,
+  body: string,
+  signature: string | undefined
+): Promise<boolean> {
+  const match = signature?.match(/^sha256=([0-9a-f]{64})$/i);
+  if (!match) {
+    return false;
+  }
+
+  const digest = new Uint8Array(
+    match[1].match(/../g)!.map((byte) => parseInt(byte, 16))
+  );
+  const key = await crypto.subtle.importKey(
+    'raw',
+    new TextEncoder().encode(secret),
+    { name: 'HMAC', hash: 'SHA-256' },
+    false,
+    ['verify']
+  );
+
+  // subtle.verify compares in constant time
+  return crypto.subtle.verify('HMAC', key, digest, new TextEncoder().encode(body));
+}
+
+/**
+ * Apply a verified webhook delivery
+ */
+export async function handleWebhookEvent(
+  env: Env,
+  event: string,
+  payload: GitHubWebhookPayload
+): Promise<WebhookResult> {
+  switch (event) {
+    case 'installation':
+    case 'installation_repositories':
+      return invalidateInstallation(env, payload);
+    case 'issues':
+      if (payload.action === 'reopened') {
+        return forgetClosedIssue(env, payload);
+      }
+      if (CLOSED_ISSUE_ACTIONS.includes(payload.action ?? '') && payload.issue?.state === 'closed') {
+        return recordClosedIssue(env, payload);
+      }
+      return 'ignored';
+    default:
+      return 'ignored';
+  }
+}
+
+/**
+ * Installation changes can move repos between installations or remove access,
+ * so forget the cached installation and every affected repo's config
+ */
+async function invalidateInstallation(
+  env: Env,
+  payload: GitHubWebhookPayload
+): Promise<WebhookResult> {
+  const repos = [
+    ...(payload.repositories || []),
+    ...(payload.repositories_added || []),
+    ...(payload.repositories_removed || []),
+  ].map((repository) => repository.full_name);
+
+  if (payload.installation) {
+    await forgetInstallation(env, payload.installation.id, repos);
+  }
+
+  for (const fullName of repos) {
+    const [owner, repo] = fullName.split('/');
+    invalidateRepoConfig(owner, repo);
+  }
+
+  return 'invalidated';
+}
+
+/**
+ * The recorded status of a closed BugDrop issue, so status lookups can skip GitHub
+ */
+export async function getClosedIssueStatus(
+  env: Env,
+  owner: string,
+  repo: string,
+  issueNumber: number
+): Promise<ClosedIssueStatus | null> {
+  if (!env.STATE) {
+    return null;
+  }
+  return env.STATE.get<ClosedIssueStatus>(closedIssueKey(`${owner}/${repo}`, issueNumber), 'json');
+}
+
+/**
+ * Remember that a BugDrop issue was closed so its reporter can be told
+ */
+async function recordClosedIssue(
+  env: Env,
+  payload: GitHubWebhookPayload
+): Promise<WebhookResult> {
+  const { issue, repository } = payload;
+  if (!issue || !repository || !issue.labels.some((label) => label.name === 'bugdrop')) {
+    return 'ignored';
+  }
+
+  if (!env.STATE) {
+    console.warn('[Webhooks] STATE KV not configured, not recording closed issue');
+    return 'ignored';
+  }
+
+  const fullName = `${repository.owner.login}/${repository.name}`;
+  const status: ClosedIssueStatus = {
+    repo: fullName,
+    issueNumber: issue.number,
+    state: 'closed',
+    stateReason: issue.state_reason,
+    labels: issue.labels.map((label) => label.name),
+    updatedAt: issue.updated_at,
+    closedAt: issue.closed_at,
+  };
+  await env.STATE.put(
+    closedIssueKey(fullName, issue.number),
+    JSON.stringify(status),
+    { expirationTtl: CLOSED_ISSUE_TTL_SECONDS }
+  );
+
+  return 'recorded';
+}
+
+/**
+ * A reopened issue is live again, so its status comes from GitHub
+ */
+async function forgetClosedIssue(
+  env: Env,
+  payload: GitHubWebhookPayload
+): Promise<WebhookResult> {
+  const { issue, repository } = payload;
+  if (!issue || !repository || !env.STATE) {
+    return 'ignored';
+  }
+
+  await env.STATE.delete(closedIssueKey(`${repository.owner.login}/${repository.name}`, issue.number));
+  return 'cleared';
+}
+
+function closedIssueKey(fullName: string, issueNumber: number): string {
+  return `closed:${fullName.toLowerCase()}#${issueNumber}`;
+}
@@ -1,5 +1,6 @@
 import type { Context, Next } from 'hono';
 import type { Env } from '../types';
+import { isMultipart, readFeedbackRequest } from '../lib/feedbackRequest';
 
 interface RateLimitConfig {
   windowMs: number;      // Time window in milliseconds
@@ -72,6 +73,8 @@ export function rateLimit(config: RateLimitConfig) {
  * Rate limit by repo (for /api/feedback endpoint)
  * This middleware reads the request body to extract the repo, so it must
  * be used with care - the body can only be read once per request.
+ * JSON bodies are read from a clone; multipart bodies go through
+ * readFeedbackRequest, which the route handler reuses instead of re-reading.
  */
 export function rateLimitByRepo(config: Omit<RateLimitConfig, 'keyPrefix'>) {
   return async (c: Context<{ Bindings: Env }>, next: Next) => {
@@ -87,10 +90,15 @@ export function rateLimitByRepo(config: Omit<RateLimitConfig, 'keyPrefix'>) {
     }
 
     try {
-      // Clone request to read body without consuming it
-      const clonedRequest = c.req.raw.clone();
-      const body = await clonedRequest.json() as { repo?: string };
-      const repo = body.repo;
+      let repo: string | undefined;
+      if (isMultipart(c.req.raw)) {
+        repo = (await readFeedbackRequest(c.req.raw, c.env)).payload.repo;
+      } else {
+        // Clone request to read body without consuming it
+        const clonedRequest = c.req.raw.clone();
+        const body = await clonedRequest.json() as { repo?: string };
+        repo = body.repo;
+      }
 
       if (!repo) {
         return next(); // Will fail validation in the route handler
@@ -98,8 +106,7 @@ export function rateLimitByRepo(config: Omit<RateLimitConfig, 'keyPrefix'>) {
 
       const windowMs = config.windowMs;
       const maxRequests = config.maxRequests;
-      const windowStart = Math.floor(Date.now() / windowMs);
-      const key = `repo:${repo}:${windowStart}`;
+      const key = repoWindowKey(repo, windowMs);
 
       const currentCount = parseInt(await kv.get(key) || '0', 10);
 
@@ -121,3 +128,27 @@ export function rateLimitByRepo(config: Omit<RateLimitConfig, 'keyPrefix'>) {
     }
   };
 }
+
+/**
+ * How much of a repo's submission limit is used in the current window (0 to 1)
+ * Returns 0 when rate limiting is not configured
+ */
+export async function getRepoUsage(
+  env: Env,
+  config: Omit<RateLimitConfig, 'keyPrefix'>,
+  repo: string
+): Promise<number> {
+  if (!env.RATE_LIMIT) return 0;
+
+  try {
+    const currentCount = parseInt(await env.RATE_LIMIT.get(repoWindowKey(repo, config.windowMs)) || '0', 10);
+    return Math.min(currentCount / config.maxRequests, 1);
+  } catch (error) {
+    console.error('[RateLimit] KV error:', error);
+    return 0;
+  }
+}
+
+function repoWindowKey(repo: string, windowMs: number): string {
+  return `repo:${repo}:${Math.floor(Date.now() / windowMs)}`;
+}
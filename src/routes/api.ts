@@ -1,36 +1,62 @@
 import { Hono } from 'hono';
+import type { Context } from 'hono';
 import { cors } from 'hono/cors';
-import type { Env, FeedbackPayload } from '../types';
+import type { Env, FeedbackPayload, RepoConfig, VerifiedSubmitter } from '../types';
 import {
   getInstallationToken,
   createIssue,
-  uploadScreenshotAsAsset,
   isRepoPublic,
 } from '../lib/github';
-import { rateLimit, rateLimitByRepo } from '../middleware/rateLimit';
+import {
+  readFeedbackRequest,
+  assertScreenshotSize,
+  FeedbackRequestError,
+} from '../lib/feedbackRequest';
+import type { FeedbackRequest } from '../lib/feedbackRequest';
+import { getRepoConfig, getIssueTemplate } from '../lib/repoConfig';
+import { formatIssueBody } from '../lib/issueBody';
+import { storeUploads } from '../lib/uploads';
+import { verifySubmitterToken } from '../lib/identity';
+import { issueChallenge, getChallengeDifficulty } from '../lib/proofOfWork';
+import { checkSubmission, SubmissionRejectedError } from '../lib/submissionChecks';
+import { redactPayload } from '../lib/redaction';
+import {
+  getFeedbackFingerprint,
+  fingerprintMarker,
+  commentOnDuplicate,
+} from '../lib/duplicates';
+import { createReceipt } from '../lib/receipts';
+import { notifySubmission } from '../lib/notifications';
+import { parseOriginList, isOriginAllowed, getAllowedOrigins, isOriginAllowedForRepo } from '../lib/origins';
+import { rateLimit, rateLimitByRepo, getRepoUsage } from '../middleware/rateLimit';
+import files from './files';
+import feedbackStatus from './status';
 
 const api = new Hono<{ Bindings: Env }>();
 
 // CORS middleware with origin whitelist
 api.use('*', async (c, next) => {
-  const allowedOrigins = c.env.ALLOWED_ORIGINS || '*';
-
-  // Parse allowed origins
-  const originList = allowedOrigins === '*'
-    ? ['*']
-    : allowedOrigins.split(',').map(o => o.trim()).filter(Boolean);
+  const originList = parseOriginList(c.env.ALLOWED_ORIGINS);
 
   const corsMiddleware = cors({
-    origin: (origin) => {
+    origin: async (origin) => {
       // Allow requests with no origin (e.g., curl, server-to-server)
       if (!origin) return '*';
-      // Wildcard allows all
-      if (originList.includes('*')) return origin;
-      // Check if origin is in whitelist
-      return originList.includes(origin) ? origin : null;
+      // Submissions are checked against the target repo's own allowlist in the handler,
+      // which can include origins outside ALLOWED_ORIGINS
+      if (c.req.path.endsWith('/feedback')) return origin;
+      // The widget's installation check and challenge name their repo, whose allowlist applies
+      // instead (it falls back to ALLOWED_ORIGINS for repos without one)
+      const repoParam = c.req.path.match(/\/check\/([^/]+\/[^/]+)$/)?.[1] ??
+        (c.req.path.endsWith('/challenge') ? c.req.query('repo') : undefined);
+      if (repoParam !== undefined) {
+        return await isOriginAllowedForRepo(c.env, repoParam, origin) ? origin : null;
+      }
+      // Check if origin is in whitelist (supports "*" and wildcard subdomains)
+      return isOriginAllowed(origin, originList) ? origin : null;
     },
     allowMethods: ['GET', 'POST', 'OPTIONS'],
-    allowHeaders: ['Content-Type'],
+    allowHeaders: ['Content-Type', 'Authorization'],
   });
 
   return corsMiddleware(c, next);
@@ -44,9 +70,17 @@ api.use('/feedback', rateLimit({
 }));
 
 // Rate limit: 50 requests per hour per repo
-api.use('/feedback', rateLimitByRepo({
+const repoRateLimit = {
   windowMs: 60 * 60 * 1000,  // 1 hour
   maxRequests: 50
+};
+api.use('/feedback', rateLimitByRepo(repoRateLimit));
+
+// Rate limit: 30 challenges per 15 minutes per IP
+api.use('/challenge', rateLimit({
+  windowMs: 15 * 60 * 1000,  // 15 minutes
+  maxRequests: 30,
+  keyPrefix: 'challenge'
 }));
 
 // Health check
@@ -70,15 +104,55 @@ api.get('/check/:owner/:repo', async (c) => {
   });
 });
 
-// Submit feedback
+// Issue a proof-of-work challenge for an anonymous submission to ?repo=owner/repo
+api.get('/challenge', async (c) => {
+  if (!c.env.SIGNING_SECRET) {
+    return c.json({ required: false });
+  }
+
+  const repoParam = c.req.query('repo') || '';
+  const [owner, repo] = repoParam.split('/');
+  if (!owner || !repo) {
+    return c.json({ error: 'Invalid repo format. Expected: owner/repo' }, 400);
+  }
+
+  try {
+    const token = await getInstallationToken(c.env, owner, repo);
+    if (!token) {
+      return c.json({ error: 'GitHub App not installed on this repository' }, 403);
+    }
+
+    const config = await getRepoConfig(token, owner, repo);
+    if (config.challengeDifficulty === 0) {
+      return c.json({ required: false });
+    }
+
+    const usage = await getRepoUsage(c.env, repoRateLimit, repoParam);
+    const difficulty = getChallengeDifficulty(config.challengeDifficulty, usage);
+
+    return c.json({
+      required: true,
+      ...await issueChallenge(c.env.SIGNING_SECRET, repoParam, difficulty),
+    });
+  } catch (error) {
+    console.error('Error issuing challenge:', error);
+    return c.json({ error: 'Failed to issue challenge' }, 500);
+  }
+});
+
+// Submit feedback (JSON body, or multipart with the screenshot as a binary part)
 api.post('/feedback', async (c) => {
   // Parse payload
-  let payload: FeedbackPayload;
+  let request: FeedbackRequest;
   try {
-    payload = await c.req.json();
-  } catch {
-    return c.json({ error: 'Invalid JSON' }, 400);
+    request = await readFeedbackRequest(c.req.raw, c.env);
+  } catch (error) {
+    if (error instanceof FeedbackRequestError) {
+      return c.json({ error: error.message }, error.status);
+    }
+    throw error;
   }
+  const { payload } = request;
 
   // Validate required fields
   if (!payload.repo || !payload.title || !payload.description) {
@@ -87,18 +161,6 @@ api.post('/feedback', async (c) => {
     }, 400);
   }
 
-  // Validate screenshot size
-  const maxSizeMB = parseInt(c.env.MAX_SCREENSHOT_SIZE_MB || '5', 10);
-  if (payload.screenshot) {
-    const sizeBytes = (payload.screenshot.length * 3) / 4; // Base64 to bytes
-    const sizeMB = sizeBytes / (1024 * 1024);
-    if (sizeMB > maxSizeMB) {
-      return c.json({
-        error: `Screenshot too large: ${sizeMB.toFixed(1)}MB exceeds ${maxSizeMB}MB limit`,
-      }, 400);
-    }
-  }
-
   // Parse owner/repo
   const [owner, repo] = payload.repo.split('/');
   if (!owner || !repo) {
@@ -118,54 +180,140 @@ api.post('/feedback', async (c) => {
       }, 403);
     }
 
-    // Upload screenshot as file and get URL
-    let screenshotUrl: string | undefined;
-    const imageData = payload.screenshot;
-    if (imageData && imageData.startsWith('data:image/')) {
+    // Per-repo settings from .bugdrop.yml; without them the repo's allowlist, challenge
+    // and spam rules can't be applied, so the submission is turned away
+    let config: RepoConfig;
+    try {
+      config = await getRepoConfig(token, owner, repo);
+    } catch (error) {
+      console.error(`[BugDrop] Failed to load config for ${owner}/${repo}:`, error);
+      return c.json({
+        error: 'The repository\'s BugDrop configuration could not be loaded, please try again shortly',
+        code: 'CONFIG_UNAVAILABLE',
+      }, 503);
+    }
+
+    // Only accept submissions from the repo's allowed origins
+    // (requests without an Origin header are server-to-server, as in the CORS check)
+    const origin = c.req.header('origin');
+    if (origin && !isOriginAllowed(origin, await getAllowedOrigins(c.env, owner, repo, config))) {
+      return c.json({
+        error: `Origin ${origin} is not allowed to submit feedback to this repository`,
+        code: 'ORIGIN_NOT_ALLOWED',
+      }, 403);
+    }
+
+    // Identity from the host's signed user token; without one the submitter is self-reported
+    let identity: VerifiedSubmitter | null = null;
+    if (payload.userToken) {
+      identity = await verifySubmitterToken(c.env, owner, repo, config, payload.userToken);
+      if (!identity) {
+        console.warn(`[BugDrop] Invalid user token for ${owner}/${repo}, treating submitter as self-reported`);
+      }
+    }
+
+    // Proof-of-work and spam checks; likely spam is still filed, under a separate label
+    let spam: Awaited<ReturnType<typeof checkSubmission>>;
+    try {
+      spam = await checkSubmission(c.env, owner, repo, payload, config, identity);
+    } catch (error) {
+      if (error instanceof SubmissionRejectedError) {
+        return c.json({ error: error.message, code: error.code, ...(error.spam && { spam: error.spam }) }, 403);
+      }
+      throw error;
+    }
+
+    // Scrub secrets and personal data before anything is written to GitHub
+    const { payload: feedback, redactedCount } = redactPayload(payload, config.redaction);
+
+    // The repo can lower the screenshot size limit below the Worker-wide one
+    if (config.maxScreenshotSizeMB) {
       try {
-        screenshotUrl = await uploadScreenshotAsAsset(
-          token,
-          owner,
-          repo,
-          imageData
-        );
+        for (const image of [request.screenshot, request.annotations]) {
+          if (image) assertScreenshotSize(image, config.maxScreenshotSizeMB);
+        }
       } catch (error) {
-        console.error('Failed to upload screenshot:', error);
-        // Continue without screenshot rather than failing the whole submission
+        return c.json({ error: (error as Error).message }, 400);
       }
     }
 
-    // Build issue body
-    const body = formatIssueBody(payload, screenshotUrl);
+    // Store the screenshot, its annotated copy and attached files (in the repo, R2 or KV)
+    const uploads = await storeUploads(c.env, {
+      token,
+      owner,
+      repo,
+      branch: config.screenshotBranch,
+      baseUrl: new URL(c.req.url).origin,
+    }, request);
+
+    // Unknown categories are filed as bugs (own keys only, so "constructor" isn't a category)
+    const category = feedback.category && Object.hasOwn(config.categoryLabels, feedback.category)
+      ? feedback.category
+      : 'bug';
+
+    // Build issue body (from the repo's template, if it defines one)
+    const template = await getIssueTemplate(token, owner, repo, category);
+    const body = formatIssueBody(feedback, uploads, template, identity, redactedCount);
 
     // Check repo visibility (for UI to decide whether to show issue link)
     const isPublic = await isRepoPublic(token, owner, repo);
 
-    // Map category to GitHub label
-    const categoryLabels: Record<string, string> = {
-      bug: 'bug',
-      feature: 'enhancement',
-      question: 'question',
-    };
-    const categoryLabel = payload.category
-      ? categoryLabels[payload.category] || 'bug'
-      : 'bug';
+    // Repeat reports of the same problem go on the existing issue as a comment
+    const fingerprint = await getFeedbackFingerprint(feedback);
+    // (likely spam never lands on a real issue)
+    const duplicate = config.detectDuplicates && spam.action === 'accept'
+      ? await commentOnDuplicate(token, owner, repo, fingerprint, body)
+      : null;
+    if (duplicate) {
+      return c.json({
+        success: true,
+        issueNumber: duplicate.number,
+        issueUrl: duplicate.html_url,
+        isPublic,
+        duplicateOf: duplicate.number,
+        spam,
+        ...await receiptFields(c, owner, repo, duplicate.number),
+      });
+    }
+
+    // Map category to GitHub label (mapping can be overridden per repo)
+    const categoryLabel = config.categoryLabels[category];
+    // Likely spam is filed under bugdrop-spam, out of the normal bugdrop triage queue
+    const bugdropLabel = spam.action === 'label' ? 'bugdrop-spam' : 'bugdrop';
+    const labels = [...new Set([categoryLabel, bugdropLabel, ...config.labels, ...getTagLabels(feedback, config)])];
 
     // Create issue with category label
     const issue = await createIssue(
       token,
       owner,
       repo,
-      payload.title,
-      body,
-      [categoryLabel, 'bugdrop']
+      `${config.titlePrefix}${feedback.title}`,
+      `${body}\n\n${fingerprintMarker(fingerprint)}`,
+      labels,
+      config.assignees
     );
 
+    // Tell the repo's chat/webhook integrations without holding up the response
+    if (config.notifications.length > 0 && spam.action === 'accept') {
+      runInBackground(c, notifySubmission(c.env, config.notifications, {
+        repo: `${owner}/${repo}`,
+        issueNumber: issue.number,
+        issueUrl: issue.html_url,
+        title: `${config.titlePrefix}${feedback.title}`,
+        category,
+        pageUrl: feedback.metadata.url,
+        screenshotUrl: uploads.annotatedUrl || uploads.screenshotUrl,
+        submitterName: identity?.name || payload.submitter?.name,
+      }));
+    }
+
     return c.json({
       success: true,
       issueNumber: issue.number,
       issueUrl: issue.html_url,
       isPublic,
+      spam,
+      ...await receiptFields(c, owner, repo, issue.number),
     });
 
   } catch (error) {
@@ -176,89 +324,55 @@ api.post('/feedback', async (c) => {
   }
 });
 
-/**
- * Format the issue body with markdown
- */
-function formatIssueBody(
-  payload: FeedbackPayload,
-  screenshotDataUrl?: string
-): string {
-  const sections: string[] = [];
-
-  // Submitter info (if provided)
-  if (payload.submitter?.name || payload.submitter?.email) {
-    sections.push('## Submitted by');
-    const parts: string[] = [];
-    if (payload.submitter.name) {
-      parts.push(`**${payload.submitter.name}**`);
-    }
-    if (payload.submitter.email) {
-      parts.push(`(${payload.submitter.email})`);
-    }
-    sections.push(parts.join(' '));
-    sections.push('');
-  }
+// Screenshots, attachments and DOM snapshots stored in R2 or KV
+api.route('/', files);
 
-  // Description
-  sections.push('## Description');
-  sections.push(payload.description);
-  sections.push('');
-
-  // Screenshot - embedded as base64 data URL
-  if (screenshotDataUrl) {
-    sections.push('## Screenshot');
-    sections.push(`![Screenshot](${screenshotDataUrl})`);
-    sections.push('');
-  }
+// Reporter-facing status of submitted issues
+api.route('/', feedbackStatus);
 
-  // System Info
-  sections.push('<details>');
-  sections.push('<summary>System Info</summary>');
-  sections.push('');
-  sections.push('| Property | Value |');
-  sections.push('|----------|-------|');
-
-  // Browser and OS (if available)
-  if (payload.metadata.browser) {
-    const browserVersion = payload.metadata.browser.version
-      ? ` ${payload.metadata.browser.version}`
-      : '';
-    sections.push(`| **Browser** | ${payload.metadata.browser.name}${browserVersion} |`);
+/**
+ * Tags set by the host page that the repo allows as labels, spelled as in allowedTags
+ */
+function getTagLabels(payload: FeedbackPayload, config: RepoConfig): string[] {
+  if (!Array.isArray(payload.tags)) {
+    return [];
   }
+  const requested = new Set(payload.tags.map((tag) => String(tag).toLowerCase()));
+  return config.allowedTags.filter((tag) => requested.has(tag.toLowerCase()));
+}
 
-  if (payload.metadata.os) {
-    const osVersion = payload.metadata.os.version
-      ? ` ${payload.metadata.os.version}`
-      : '';
-    sections.push(`| **OS** | ${payload.metadata.os.name}${osVersion} |`);
+/**
+ * Receipt and status URL returned to the reporter (only when SIGNING_SECRET is set)
+ */
+async function receiptFields(
+  c: Context<{ Bindings: Env }>,
+  owner: string,
+  repo: string,
+  issueNumber: number
+): Promise<{ receipt?: string; statusUrl?: string }> {
+  if (!c.env.SIGNING_SECRET) {
+    return {};
   }
 
-  // Viewport with pixel ratio
-  const pixelRatio = payload.metadata.devicePixelRatio
-    ? ` @${payload.metadata.devicePixelRatio}x`
-    : '';
-  sections.push(`| **Viewport** | ${payload.metadata.viewport.width}×${payload.metadata.viewport.height}${pixelRatio} |`);
+  const statusUrl = new URL(c.req.url);
+  statusUrl.pathname = statusUrl.pathname.replace(/\/feedback$/, `/feedback/${owner}/${repo}/${issueNumber}`);
+  statusUrl.search = '';
 
-  // Language
-  if (payload.metadata.language) {
-    sections.push(`| **Language** | ${payload.metadata.language} |`);
-  }
-
-  // URL (redacted)
-  sections.push(`| **Page** | ${payload.metadata.url} |`);
-  sections.push(`| **Timestamp** | ${payload.metadata.timestamp} |`);
+  return {
+    receipt: await createReceipt(c.env.SIGNING_SECRET, owner, repo, issueNumber),
+    statusUrl: statusUrl.toString(),
+  };
+}
 
-  if (payload.metadata.elementSelector) {
-    sections.push(`| **Element** | \`${payload.metadata.elementSelector}\` |`);
+/**
+ * Keep a task running after the response is sent
+ */
+function runInBackground(c: Context<{ Bindings: Env }>, task: Promise<unknown>): void {
+  try {
+    c.executionCtx.waitUntil(task);
+  } catch {
+    // No execution context outside the Workers runtime (e.g. tests); the task still runs
   }
-
-  sections.push('');
-  sections.push('</details>');
-  sections.push('');
-  sections.push('---');
-  sections.push('*Submitted via [BugDrop](https://github.com/neonwatty/bugdrop)*');
-
-  return sections.join('\n');
 }
 
 export default api;
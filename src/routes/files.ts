@@ -0,0 +1,90 @@
+import { Hono } from 'hono';
+import type { Env } from '../types';
+import { loadScreenshot, loadAttachment } from '../lib/screenshotStorage';
+import { DOM_SNAPSHOT_NAME } from '../lib/feedbackRequest';
+
+// Files this Worker stores in R2 or KV, mounted under /api alongside the API routes
+const files = new Hono<{ Bindings: Env }>();
+
+// Screenshots stored in R2 or KV (repo-stored ones are served by GitHub)
+files.get('/screenshots/:id', async (c) => {
+  const screenshot = await loadScreenshot(c.env, c.req.param('id'));
+  if (!screenshot) {
+    return c.json({ error: 'Screenshot not found' }, 404);
+  }
+
+  return c.body(screenshot.body, 200, {
+    'Content-Type': screenshot.contentType,
+    // IDs are never reused, so the image can be cached indefinitely
+    'Cache-Control': 'public, max-age=31536000, immutable',
+    'X-Content-Type-Options': 'nosniff',
+  });
+});
+
+// Attachments stored in R2 or KV, always served as downloads so they never render inline
+files.get('/attachments/:id', async (c) => {
+  const attachment = await loadAttachment(c.env, c.req.param('id'));
+  if (!attachment) {
+    return c.json({ error: 'Attachment not found' }, 404);
+  }
+
+  return c.body(attachment.body, 200, {
+    'Content-Type': attachment.contentType,
+    'Content-Disposition': `attachment; filename="${attachment.filename}"`,
+    'Cache-Control': 'public, max-age=31536000, immutable',
+    'X-Content-Type-Options': 'nosniff',
+  });
+});
+
+// Viewer for DOM snapshots: the page as the reporter saw it, in a sandboxed iframe
+files.get('/snapshots/:id', async (c) => {
+  const snapshot = await loadDomSnapshot(c.env, c.req.param('id'));
+  if (!snapshot) {
+    return c.json({ error: 'Snapshot not found' }, 404);
+  }
+  await snapshot.body.cancel();
+
+  return c.html(`<!DOCTYPE html>
+<html lang="en">
+<head>
+  <meta charset="utf-8">
+  <title>BugDrop DOM snapshot</title>
+  <style>
+    html, body { margin: 0; height: 100%; font-family: system-ui, sans-serif; }
+    header { padding: 8px 16px; font-size: 14px; background: #0f172a; color: #e2e8f0; }
+    iframe { display: block; width: 100%; height: calc(100% - 36px); border: 0; }
+  </style>
+</head>
+<body>
+  <header>DOM snapshot &middot; scripts are disabled and form values are masked; use your browser's inspector to explore it</header>
+  <iframe sandbox src="${c.req.path}/frame" title="DOM snapshot"></iframe>
+</body>
+</html>`, 200, {
+    'Content-Security-Policy': "default-src 'none'; style-src 'unsafe-inline'; frame-src 'self'",
+  });
+});
+
+// The snapshot's HTML; the CSP sandbox keeps it inert even when opened directly
+files.get('/snapshots/:id/frame', async (c) => {
+  const snapshot = await loadDomSnapshot(c.env, c.req.param('id'));
+  if (!snapshot) {
+    return c.json({ error: 'Snapshot not found' }, 404);
+  }
+
+  return c.body(snapshot.body.pipeThrough(new DecompressionStream('gzip')), 200, {
+    'Content-Type': 'text/html; charset=utf-8',
+    'Content-Security-Policy': "sandbox; script-src 'none'; frame-ancestors 'self'",
+    'Cache-Control': 'public, max-age=31536000, immutable',
+    'X-Content-Type-Options': 'nosniff',
+  });
+});
+
+async function loadDomSnapshot(env: Env, id: string): Promise<{ body: ReadableStream } | null> {
+  const attachment = await loadAttachment(env, id);
+  if (!attachment || attachment.filename !== DOM_SNAPSHOT_NAME) {
+    return null;
+  }
+  return { body: new Response(attachment.body).body! };
+}
+
+export default files;
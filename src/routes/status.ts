@@ -0,0 +1,48 @@
+import { Hono } from 'hono';
+import type { Env } from '../types';
+import { getInstallationToken } from '../lib/github';
+import { getRepoConfig } from '../lib/repoConfig';
+import { verifyReceipt, getFeedbackStatus } from '../lib/receipts';
+import { getClosedIssueStatus } from '../lib/webhooks';
+
+const feedbackStatus = new Hono<{ Bindings: Env }>();
+
+// Reporter-facing status of a submitted issue, authorized by the receipt from POST /feedback
+feedbackStatus.get('/feedback/:owner/:repo/:number', async (c) => {
+  const { owner, repo } = c.req.param();
+  const issueNumber = parseInt(c.req.param('number'), 10);
+
+  if (!c.env.SIGNING_SECRET) {
+    return c.json({ error: 'Status tracking is not enabled on this server' }, 501);
+  }
+
+  const receipt = c.req.header('authorization')?.replace(/^Bearer\s+/i, '') || c.req.query('receipt');
+  if (!receipt || isNaN(issueNumber) ||
+      !(await verifyReceipt(c.env.SIGNING_SECRET, receipt, owner, repo, issueNumber))) {
+    return c.json({ error: 'Invalid or missing receipt' }, 401);
+  }
+
+  try {
+    const token = await getInstallationToken(c.env, owner, repo);
+    if (!token) {
+      return c.json({ error: 'GitHub App not installed on this repository' }, 403);
+    }
+
+    const config = await getRepoConfig(token, owner, repo);
+    // Closed issues recorded by the webhook don't need GitHub, unless comments are shown
+    const recorded = config.showMaintainerComments
+      ? null
+      : await getClosedIssueStatus(c.env, owner, repo, issueNumber);
+    const status = recorded ?? await getFeedbackStatus(token, owner, repo, issueNumber, config);
+    if (!status) {
+      return c.json({ error: 'Issue not found' }, 404);
+    }
+
+    return c.json(status);
+  } catch (error) {
+    console.error('Error fetching feedback status:', error);
+    return c.json({ error: 'Failed to fetch status' }, 500);
+  }
+});
+
+export default feedbackStatus;
@@ -0,0 +1,41 @@
+import { Hono } from 'hono';
+import type { Env, GitHubWebhookPayload } from '../types';
+import { verifyWebhookSignature, handleWebhookEvent } from '../lib/webhooks';
+
+const webhooks = new Hono<{ Bindings: Env }>();
+
+// GitHub App webhook deliveries
+webhooks.post('/github', async (c) => {
+  if (!c.env.GITHUB_WEBHOOK_SECRET) {
+    return c.json({ error: 'Webhooks are not enabled on this server' }, 501);
+  }
+
+  // The signature covers the exact bytes GitHub sent, so verify before parsing
+  const body = await c.req.text();
+  const signature = c.req.header('x-hub-signature-256');
+  if (!(await verifyWebhookSignature(c.env.GITHUB_WEBHOOK_SECRET, body, signature))) {
+    return c.json({ error: 'Invalid signature' }, 401);
+  }
+
+  const event = c.req.header('x-github-event');
+  if (!event) {
+    return c.json({ error: 'Missing X-GitHub-Event header' }, 400);
+  }
+
+  let payload: GitHubWebhookPayload;
+  try {
+    payload = JSON.parse(body);
+  } catch {
+    return c.json({ error: 'Invalid JSON payload' }, 400);
+  }
+
+  try {
+    const result = await handleWebhookEvent(c.env, event, payload);
+    return c.json({ event, action: payload.action, result });
+  } catch (error) {
+    console.error(`Error handling ${event} webhook:`, error);
+    return c.json({ error: 'Failed to handle webhook' }, 500);
+  }
+});
+
+export default webhooks;
@@ -2,16 +2,23 @@ export interface Env {
   // Secrets (from .dev.vars locally, wrangler secret in production)
   GITHUB_APP_ID: string;
   GITHUB_PRIVATE_KEY: string;
+  SIGNING_SECRET?: string; // Optional: signs receipt tokens for the status endpoint
+  GITHUB_WEBHOOK_SECRET?: string; // Optional: verifies deliveries to POST /api/webhooks/github
 
   // Variables (from wrangler.toml)
   ENVIRONMENT: string;
   ALLOWED_ORIGINS: string; // Comma-separated list of allowed origins, or "*" for dev
   GITHUB_APP_NAME: string; // Your GitHub App name for install URL
   MAX_SCREENSHOT_SIZE_MB: string; // Max screenshot size in MB (default: 5)
+  SCREENSHOT_STORAGE?: string; // Where screenshots are stored: "repo" (default), "r2" or "kv"
+  SCREENSHOT_FALLBACK?: string; // "kv" to store in STATE KV when SCREENSHOT_STORAGE fails (public by ID)
+  SCREENSHOT_CLEANUP_DRY_RUN?: string; // "true" to only log what the scheduled cleanup would delete
 
   // Bindings
   ASSETS: Fetcher;
   RATE_LIMIT?: KVNamespace; // Optional: for rate limiting (create with wrangler kv:namespace create RATE_LIMIT)
+  STATE?: KVNamespace; // Optional: for cached installation tokens, origin registry and webhook state (create with wrangler kv:namespace create STATE)
+  SCREENSHOTS?: R2Bucket; // Optional: screenshot storage when SCREENSHOT_STORAGE is "r2" (create with wrangler r2 bucket create bugdrop-screenshots)
 }
 
 type FeedbackCategory = 'bug' | 'feature' | 'question';
@@ -22,11 +29,20 @@ export interface FeedbackPayload {
   description: string;
   category?: FeedbackCategory; // Feedback type (maps to GitHub labels)
   screenshot?: string;    // base64 data URL
-  annotations?: string;   // base64 annotated image
+  annotations?: string;   // base64 annotated copy of the screenshot
+  attachments?: FeedbackAttachment[]; // Files sent in a JSON body (multipart bodies send file parts)
+  domSnapshot?: string;   // base64 data URL of the gzipped page HTML (data-capture-dom)
   submitter?: {           // Optional submitter info (configured per widget)
     name?: string;
     email?: string;
   };
+  userToken?: string;     // Host-signed identity token (data-user-token / BugDrop.identify)
+  proofOfWork?: ProofOfWorkSolution; // Solved challenge from GET /api/challenge
+  honeypot?: string;      // Hidden form field; only bots fill it in
+  formFillMs?: number;    // Time between opening the form and submitting it
+  consoleLogs?: ConsoleLogEntry[]; // Recent console output (data-capture-console)
+  breadcrumbs?: Breadcrumb[];      // Interactions leading up to the report, oldest first
+  tags?: string[];                 // From BugDrop.setTags; only the repo's allowedTags become labels
   metadata: {
     url: string;
     userAgent: string;
@@ -38,10 +54,126 @@ export interface FeedbackPayload {
     os?: { name: string; version: string };
     devicePixelRatio?: number;
     language?: string;
+    network?: NetworkRequestEntry[]; // Failed or slow requests (data-capture-network)
+    errors?: CapturedError[];        // Uncaught errors since the last submission
+    custom?: Record<string, string | number | boolean>; // From BugDrop.setContext / setUser
   };
 }
 
+export interface FeedbackAttachment {
+  name: string;
+  data: string;           // data URL
+}
+
+interface ConsoleLogEntry {
+  level: 'log' | 'warn' | 'error';
+  timestamp: string;      // ISO 8601
+  message: string;
+}
+
+interface Breadcrumb {
+  type: 'click' | 'navigation' | 'focus' | 'visibility';
+  detail: string;         // Element selector, page URL or "hidden"/"visible"
+  timestamp: string;      // ISO 8601
+}
+
+interface NetworkRequestEntry {
+  method: string;
+  url: string;            // Query string and fragment removed by the widget
+  status: number;         // 0 when the request failed without a response
+  durationMs: number;
+  timestamp: string;      // ISO 8601, when the request started
+}
+
+interface CapturedError {
+  type: 'error' | 'unhandledrejection';
+  message: string;
+  stack?: string;
+  source?: string;        // "file:line:column", for errors without a stack
+  timestamp: string;      // ISO 8601
+}
+
+export interface ProofOfWorkSolution {
+  challenge: string;      // Signed challenge token
+  solution: string;       // Makes SHA-256("<challenge>:<solution>") start with enough zero bits
+}
+
+// Per-repository settings read from .bugdrop.yml (or .github/bugdrop.yml)
+export interface RepoConfig {
+  categoryLabels: Record<string, string>; // Feedback category -> GitHub label
+  labels: string[];                       // Extra labels added alongside 'bugdrop'
+  allowedTags: string[];                  // Tags from BugDrop.setTags that may become labels
+  assignees: string[];                    // GitHub usernames assigned to new issues
+  titlePrefix: string;                    // Prepended to every issue title
+  maxScreenshotSizeMB?: number;           // Can lower (not raise) MAX_SCREENSHOT_SIZE_MB
+  screenshotBranch: string;               // Branch screenshots are committed to (created as an orphan)
+  screenshotRetentionDays: number;        // Age at which screenshots of closed issues are deleted (0 = never)
+  allowedOrigins?: string[];              // Origins (or https://*.example.com patterns) allowed to submit
+  detectDuplicates: boolean;              // Comment on a matching open issue instead of opening a new one
+  showMaintainerComments: boolean;        // Include the last maintainer comment in the status endpoint
+  notifications: NotificationTarget[];    // Webhooks called for each new issue
+  identityPublicKey?: string;             // PEM public key for RS256 user tokens
+  challengeDifficulty: number;            // Proof-of-work bits for anonymous submissions (0 = off)
+  spam: SpamConfig;                       // Spam scoring rules and thresholds
+  redaction: RedactionConfig;             // Personal data scrubbed before issues are created
+}
+
+export interface SpamConfig {
+  bannedWords: string[];                  // Case-insensitive substrings
+  bannedPatterns: string[];               // Case-insensitive regular expressions
+  labelThreshold: number;                 // Score at which issues get bugdrop-spam instead of bugdrop
+  rejectThreshold: number;                // Score at which submissions are refused
+}
+
+export interface RedactionConfig {
+  enabled: boolean;                       // Built-in detectors: emails, cards, tokens, API keys, IPs
+  patterns: string[];                     // Extra case-insensitive regular expressions
+}
+
+// Submitter identity taken from a verified host-signed token
+export interface VerifiedSubmitter {
+  id: string;
+  name?: string;
+  email?: string;
+}
+
+export interface NotificationTarget {
+  url: string;
+  format: 'slack' | 'discord' | 'generic';
+}
+
 export interface GitHubIssue {
   number: number;
   html_url: string;
+  title?: string;
+  body?: string | null;
+}
+
+export interface GitHubIssueDetails extends GitHubIssue {
+  state: 'open' | 'closed';
+  state_reason: 'completed' | 'not_planned' | 'reopened' | null;
+  labels: Array<{ name: string }>;
+  updated_at: string;
+  closed_at: string | null;
+}
+
+export interface GitHubComment {
+  body: string;
+  created_at: string;
+  author_association: string; // OWNER, MEMBER, COLLABORATOR, CONTRIBUTOR, NONE, ...
+}
+
+// Subset of the GitHub webhook payload fields BugDrop reads
+export interface GitHubWebhookPayload {
+  action?: string;
+  installation?: { id: number };
+  repository?: { name: string; owner: { login: string } };
+  repositories?: GitHubWebhookRepository[];         // installation events
+  repositories_added?: GitHubWebhookRepository[];   // installation_repositories events
+  repositories_removed?: GitHubWebhookRepository[];
+  issue?: GitHubIssueDetails;
+}
+
+interface GitHubWebhookRepository {
+  full_name: string;
 }
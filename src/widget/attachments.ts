@@ -0,0 +1,119 @@
+// Attachment limits (the API enforces the same ones)
+const MAX_ATTACHMENTS = 5;
+const MAX_ATTACHMENT_BYTES = 5 * 1024 * 1024;
+const MAX_TOTAL_BYTES = 10 * 1024 * 1024;
+
+// Extensions offered by the file picker; checked by name since many of these arrive untyped
+const ATTACHMENT_EXTENSIONS = ['txt', 'log', 'csv', 'json', 'har', 'pdf', 'zip', 'png', 'jpg', 'jpeg', 'webp', 'gif'];
+
+export const ATTACHMENT_FIELD_HTML = `
+  <div class="bd-form-group">
+    <label class="bd-label" for="attachment-input">Attachments</label>
+    <div class="bd-dropzone" id="attachment-dropzone" tabindex="0" role="button">
+      📎 Drop files here or <span class="bd-dropzone-link">browse</span>
+      <div class="bd-dropzone-hint">Logs, HAR, CSV, JSON, PDF, ZIP or images · up to ${MAX_ATTACHMENTS} files, ${formatFileSize(MAX_ATTACHMENT_BYTES)} each</div>
+    </div>
+    <input type="file" id="attachment-input" multiple hidden accept="${ATTACHMENT_EXTENSIONS.map((ext) => `.${ext}`).join(',')}" />
+    <ul class="bd-attachment-list" id="attachment-list"></ul>
+    <div class="bd-field-error" id="attachment-error" hidden></div>
+  </div>
+`;
+
+// Wire up the drop zone and file picker rendered from ATTACHMENT_FIELD_HTML
+// Returns a getter for the files currently selected
+export function bindAttachmentField(container: HTMLElement): () => File[] {
+  const dropzone = container.querySelector('#attachment-dropzone') as HTMLElement;
+  const input = container.querySelector('#attachment-input') as HTMLInputElement;
+  const list = container.querySelector('#attachment-list') as HTMLUListElement;
+  const errorEl = container.querySelector('#attachment-error') as HTMLElement;
+  let files: File[] = [];
+
+  const render = () => {
+    list.innerHTML = '';
+    files.forEach((file, index) => {
+      const item = document.createElement('li');
+      item.className = 'bd-attachment-item';
+
+      const name = document.createElement('span');
+      name.className = 'bd-attachment-name';
+      name.textContent = `${file.name} (${formatFileSize(file.size)})`;
+
+      const remove = document.createElement('button');
+      remove.type = 'button';
+      remove.className = 'bd-attachment-remove';
+      remove.setAttribute('aria-label', `Remove ${file.name}`);
+      remove.textContent = '×';
+      remove.addEventListener('click', () => {
+        files = files.filter((_, i) => i !== index);
+        render();
+      });
+
+      item.append(name, remove);
+      list.appendChild(item);
+    });
+  };
+
+  const add = (incoming: FileList | null) => {
+    const { accepted, errors } = checkAttachments(files, Array.from(incoming || []));
+    files = [...files, ...accepted];
+    errorEl.textContent = errors.join(' ');
+    errorEl.hidden = errors.length === 0;
+    render();
+  };
+
+  dropzone.addEventListener('click', () => input.click());
+  dropzone.addEventListener('keydown', (e) => {
+    if (e.key === 'Enter' || e.key === ' ') {
+      e.preventDefault();
+      input.click();
+    }
+  });
+  input.addEventListener('change', () => {
+    add(input.files);
+    input.value = '';
+  });
+
+  dropzone.addEventListener('dragover', (e) => {
+    e.preventDefault();
+    dropzone.classList.add('bd-dropzone--active');
+  });
+  dropzone.addEventListener('dragleave', () => dropzone.classList.remove('bd-dropzone--active'));
+  dropzone.addEventListener('drop', (e) => {
+    e.preventDefault();
+    dropzone.classList.remove('bd-dropzone--active');
+    add(e.dataTransfer?.files || null);
+  });
+
+  return () => files;
+}
+
+// Split new files into the ones that fit the limits and messages for the ones that don't
+function checkAttachments(current: File[], incoming: File[]): { accepted: File[]; errors: string[] } {
+  const accepted: File[] = [];
+  const errors: string[] = [];
+  let total = current.reduce((sum, file) => sum + file.size, 0);
+
+  for (const file of incoming) {
+    const extension = file.name.includes('.') ? file.name.split('.').pop()!.toLowerCase() : '';
+    if (!ATTACHMENT_EXTENSIONS.includes(extension)) {
+      errors.push(`${file.name} is not a supported file type.`);
+    } else if (current.length + accepted.length >= MAX_ATTACHMENTS) {
+      errors.push(`Only ${MAX_ATTACHMENTS} files can be attached.`);
+      break;
+    } else if (file.size > MAX_ATTACHMENT_BYTES) {
+      errors.push(`${file.name} is larger than ${formatFileSize(MAX_ATTACHMENT_BYTES)}.`);
+    } else if (total + file.size > MAX_TOTAL_BYTES) {
+      errors.push(`Attachments can't exceed ${formatFileSize(MAX_TOTAL_BYTES)} in total.`);
+    } else {
+      accepted.push(file);
+      total += file.size;
+    }
+  }
+  return { accepted, errors };
+}
+
+function formatFileSize(bytes: number): string {
+  if (bytes < 1024) return `${bytes} B`;
+  if (bytes < 1024 * 1024) return `${(bytes / 1024).toFixed(1)} KB`;
+  return `${Math.round(bytes / (1024 * 1024))} MB`;
+}
@@ -0,0 +1,75 @@
+import { getElementSelector } from './picker';
+import { redactUrl } from './redact';
+
+interface Breadcrumb {
+  type: 'click' | 'navigation' | 'focus' | 'visibility';
+  detail: string;      // Element selector, redacted URL or visibility state; never input values
+  timestamp: string;
+}
+
+const MAX_BREADCRUMBS = 30;
+
+const breadcrumbs: Breadcrumb[] = [];
+let recording = false;
+
+// Record clicks, SPA navigations, field focus and tab visibility changes as repro steps
+export function startBreadcrumbs(): void {
+  if (recording) return;
+  recording = true;
+
+  document.addEventListener('click', (event) => {
+    const element = getEventElement(event);
+    if (element) add('click', getElementSelector(element));
+  }, true);
+
+  document.addEventListener('focusin', (event) => {
+    const element = getEventElement(event);
+    if (element && isField(element)) add('focus', getElementSelector(element));
+  }, true);
+
+  document.addEventListener('visibilitychange', () => {
+    add('visibility', document.visibilityState);
+  });
+
+  let lastUrl = redactUrl(location.href);
+  const onNavigate = () => {
+    const url = redactUrl(location.href);
+    if (url !== lastUrl) {
+      lastUrl = url;
+      add('navigation', url);
+    }
+  };
+
+  const originalPushState = history.pushState;
+  history.pushState = function (this: History, ...args: Parameters<History['pushState']>) {
+    const result = originalPushState.apply(this, args);
+    onNavigate();
+    return result;
+  };
+  window.addEventListener('popstate', onNavigate);
+}
+
+// Snapshot of the recorded steps, oldest first
+export function getBreadcrumbs(): Breadcrumb[] {
+  return breadcrumbs.slice();
+}
+
+function add(type: Breadcrumb['type'], detail: string): void {
+  breadcrumbs.push({ type, detail, timestamp: new Date().toISOString() });
+  if (breadcrumbs.length > MAX_BREADCRUMBS) {
+    breadcrumbs.shift();
+  }
+}
+
+// The element an event happened on, or null for the widget's own UI
+function getEventElement(event: Event): Element | null {
+  const target = event.target;
+  if (!(target instanceof Element) || target.closest('#bugdrop-host')) {
+    return null;
+  }
+  return target;
+}
+
+function isField(element: Element): boolean {
+  return element.matches('input, textarea, select, [contenteditable]:not([contenteditable="false"])');
+}
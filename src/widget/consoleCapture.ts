@@ -0,0 +1,65 @@
+import { redactUrlsInText } from './redact';
+
+type ConsoleLevel = 'log' | 'warn' | 'error';
+
+interface ConsoleLogEntry {
+  level: ConsoleLevel;
+  timestamp: string;
+  message: string;
+}
+
+// Ring buffer size and per-line cap, so long sessions don't bloat the payload
+const MAX_ENTRIES = 100;
+const MAX_MESSAGE_LENGTH = 1000;
+
+const entries: ConsoleLogEntry[] = [];
+let capturing = false;
+
+// Wrap console.log/warn/error so their output is recorded; the originals still run
+export function startConsoleCapture(): void {
+  if (capturing) return;
+  capturing = true;
+
+  for (const level of ['log', 'warn', 'error'] as ConsoleLevel[]) {
+    const original = console[level];
+    console[level] = (...args: unknown[]) => {
+      try {
+        record(level, args);
+      } catch {
+        // Never let capture break the page's own logging
+      }
+      original.apply(console, args);
+    };
+  }
+}
+
+// Snapshot of the buffered entries, oldest first
+export function getConsoleLogs(): ConsoleLogEntry[] {
+  return entries.slice();
+}
+
+function record(level: ConsoleLevel, args: unknown[]): void {
+  let message = redactUrlsInText(args.map(formatArg).join(' '));
+  if (message.length > MAX_MESSAGE_LENGTH) {
+    message = `${message.slice(0, MAX_MESSAGE_LENGTH)}…`;
+  }
+
+  entries.push({ level, timestamp: new Date().toISOString(), message });
+  if (entries.length > MAX_ENTRIES) {
+    entries.shift();
+  }
+}
+
+function formatArg(arg: unknown): string {
+  if (typeof arg === 'string') return arg;
+  if (arg instanceof Error) return arg.stack || `${arg.name}: ${arg.message}`;
+  if (typeof arg === 'object' && arg !== null) {
+    try {
+      return JSON.stringify(arg);
+    } catch {
+      // Circular or otherwise unserializable
+      return Object.prototype.toString.call(arg);
+    }
+  }
+  return String(arg);
+}
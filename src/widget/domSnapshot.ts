@@ -0,0 +1,95 @@
+// Snapshots larger than this (after compression) are left out of the report; the API has the same limit
+const MAX_SNAPSHOT_BYTES = 5 * 1024 * 1024;
+
+// Elements that run code or pull in live content; the viewer only needs markup and styles
+const REMOVED_ELEMENTS = 'script, noscript, object, embed, base, meta[http-equiv], #bugdrop-host';
+
+// Serialize the page into a self-contained, gzipped HTML document for the snapshot viewer
+// Form values are masked, scripts and event handlers are removed, and readable stylesheets
+// are inlined; resolves null when the browser can't compress or the result is too large
+export async function captureDomSnapshot(): Promise<Blob | null> {
+  if (typeof CompressionStream === 'undefined') return null;
+
+  const clone = document.documentElement.cloneNode(true) as HTMLElement;
+
+  // Pair live nodes with their clones before anything is removed, so the lists line up
+  maskFields(document.documentElement, clone);
+  inlineStylesheets(document.documentElement, clone);
+
+  clone.querySelectorAll(REMOVED_ELEMENTS).forEach((element) => element.remove());
+  clone.querySelectorAll('*').forEach(stripActiveAttributes);
+  clone.querySelectorAll('iframe').forEach((frame) => frame.removeAttribute('src'));
+
+  // Relative image and font URLs keep resolving against the reporter's page
+  const base = document.createElement('base');
+  base.href = location.href;
+  clone.querySelector('head')?.prepend(base);
+
+  const html = `<!DOCTYPE html>\n${clone.outerHTML}`;
+  const compressed = new Blob([html]).stream().pipeThrough(new CompressionStream('gzip'));
+  const blob = await new Response(compressed).blob();
+  return blob.size <= MAX_SNAPSHOT_BYTES ? new Blob([blob], { type: 'application/gzip' }) : null;
+}
+
+// Replace what was typed or chosen with a mask of the same length; checkboxes keep their state
+function maskFields(live: HTMLElement, clone: HTMLElement): void {
+  const liveFields = live.querySelectorAll('input, textarea, select');
+  const cloneFields = clone.querySelectorAll('input, textarea, select');
+
+  liveFields.forEach((field, index) => {
+    const copy = cloneFields[index];
+    if (!copy) return;
+
+    if (field instanceof HTMLInputElement) {
+      if (field.type === 'checkbox' || field.type === 'radio') {
+        copy.toggleAttribute('checked', field.checked);
+      } else if (field.type === 'hidden') {
+        copy.removeAttribute('value');
+      } else {
+        copy.setAttribute('value', mask(field.value));
+      }
+    } else if (field instanceof HTMLTextAreaElement) {
+      copy.textContent = mask(field.value);
+    } else {
+      copy.querySelectorAll('option').forEach((option) => option.removeAttribute('selected'));
+    }
+  });
+}
+
+function mask(value: string): string {
+  return '•'.repeat(Math.min(value.length, 24));
+}
+
+// Swap <link> stylesheets for their rules and capture rules added through the CSSOM;
+// cross-origin sheets can't be read and are left to load from their own URL
+function inlineStylesheets(live: HTMLElement, clone: HTMLElement): void {
+  const selector = 'link[rel~="stylesheet"], style';
+  const liveSheets = live.querySelectorAll(selector);
+  const cloneSheets = clone.querySelectorAll(selector);
+
+  liveSheets.forEach((node, index) => {
+    const copy = cloneSheets[index];
+    const sheet = (node as HTMLLinkElement | HTMLStyleElement).sheet;
+    if (!copy || !sheet) return;
+
+    let css: string;
+    try {
+      css = Array.from(sheet.cssRules, (rule) => rule.cssText).join('\n');
+    } catch {
+      return;
+    }
+
+    const style = document.createElement('style');
+    if (sheet.media.mediaText) style.media = sheet.media.mediaText;
+    style.textContent = css;
+    copy.replaceWith(style);
+  });
+}
+
+function stripActiveAttributes(element: Element): void {
+  for (const { name, value } of Array.from(element.attributes)) {
+    if (name.startsWith('on') || /^\s*javascript:/i.test(value)) {
+      element.removeAttribute(name);
+    }
+  }
+}
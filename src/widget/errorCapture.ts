@@ -0,0 +1,73 @@
+import { redactUrlsInText } from './redact';
+
+interface CapturedError {
+  type: 'error' | 'unhandledrejection';
+  message: string;
+  stack?: string;
+  source?: string;     // Script URL and position, for errors without a stack
+  timestamp: string;
+}
+
+// Only the most recent errors are kept, with stacks trimmed to their top frames
+const MAX_ERRORS = 10;
+const MAX_STACK_LINES = 15;
+
+const errors: CapturedError[] = [];
+let capturing = false;
+
+// Record uncaught errors and unhandled promise rejections; onError runs after each one
+export function startErrorCapture(onError?: (error: CapturedError) => void): void {
+  if (capturing) return;
+  capturing = true;
+
+  window.addEventListener('error', (event) => {
+    // Resource load failures (img, script) also fire 'error', but aren't ErrorEvents
+    if (!(event instanceof ErrorEvent)) return;
+    const source = event.filename ? `${event.filename}:${event.lineno}:${event.colno}` : undefined;
+    record('error', event.error ?? event.message, source, onError);
+  });
+
+  window.addEventListener('unhandledrejection', (event) => {
+    record('unhandledrejection', event.reason, undefined, onError);
+  });
+}
+
+// Snapshot of the recorded errors, oldest first
+export function getCapturedErrors(): CapturedError[] {
+  return errors.slice();
+}
+
+// Errors are sent with the next submission only
+export function clearCapturedErrors(): void {
+  errors.length = 0;
+}
+
+function record(
+  type: CapturedError['type'],
+  reason: unknown,
+  source: string | undefined,
+  onError?: (error: CapturedError) => void
+): void {
+  let entry: CapturedError;
+  try {
+    const isError = reason instanceof Error;
+    entry = {
+      type,
+      message: redactUrlsInText(isError ? `${reason.name}: ${reason.message}` : String(reason)),
+      ...(isError && reason.stack && {
+        stack: redactUrlsInText(reason.stack.split('\n').slice(0, MAX_STACK_LINES).join('\n')),
+      }),
+      ...(source && { source: redactUrlsInText(source) }),
+      timestamp: new Date().toISOString(),
+    };
+  } catch {
+    // Never let capture add errors of its own
+    return;
+  }
+
+  errors.push(entry);
+  if (errors.length > MAX_ERRORS) {
+    errors.shift();
+  }
+  onError?.(entry);
+}
@@ -1,10 +1,19 @@
-import { captureScreenshot } from './screenshot';
-import { createElementPicker } from './picker';
+import { captureScreenshot, dataUrlToBlob } from './screenshot';
+import { createElementPicker, getElementSelector } from './picker';
 import { createAnnotator } from './annotator';
+import { prepareProofOfWork, takeProofOfWork } from './proofOfWork';
+import { ATTACHMENT_FIELD_HTML, bindAttachmentField } from './attachments';
+import { redactUrl } from './redact';
+import { startConsoleCapture, getConsoleLogs } from './consoleCapture';
+import { startNetworkCapture, getNetworkRequests } from './networkCapture';
+import { startErrorCapture, getCapturedErrors, clearCapturedErrors } from './errorCapture';
+import { startBreadcrumbs, getBreadcrumbs } from './breadcrumbs';
+import { captureDomSnapshot } from './domSnapshot';
 import {
   injectStyles,
   createModal,
   showSuccessModal,
+  showErrorToast,
 } from './ui';
 
 interface WidgetConfig {
@@ -17,6 +26,18 @@ interface WidgetConfig {
   requireName: boolean;
   showEmail: boolean;
   requireEmail: boolean;
+  // File attachment drop zone
+  showAttachments: boolean;
+  // Record console output from page load and send it with reports
+  captureConsole: boolean;
+  // Record failed and slow fetch/XHR requests and send them with reports
+  captureNetwork: boolean;
+  // Offer to report uncaught errors with a toast
+  promptOnError: boolean;
+  // Record clicks, navigation, focus and visibility changes as repro steps
+  breadcrumbs: boolean;
+  // Send a masked HTML snapshot of the page for the snapshot viewer
+  captureDom: boolean;
   // Dismissible button configuration
   buttonDismissible: boolean;
   dismissDuration?: number; // Days before dismissed button reappears (undefined = forever)
@@ -38,6 +59,8 @@ interface WidgetConfig {
   borderWidth?: string; // Border width in px (e.g., '4')
   borderColor?: string; // Border color (e.g., '#1a1a1a')
   shadow?: string; // Shadow preset: 'none', 'soft' (default), 'hard'
+  // Host-signed identity token (data-user-token, or set later with BugDrop.identify)
+  userToken?: string;
 }
 
 // BugDrop JavaScript API interface
@@ -48,6 +71,29 @@ interface BugDropAPI {
   show: () => void;
   isOpen: () => boolean;
   isButtonVisible: () => boolean;
+  identify: (token: string | null) => void;
+  setContext: (key: string, value: ContextValue | null) => void;
+  setUser: (user: BugDropUser | null) => void;
+  setTags: (tags: string[]) => void;
+  submit: (options: SubmitOptions) => Promise<SubmitResult>;
+}
+
+// A report from the host page's own UI; captureScreenshot takes one of the page or an element
+interface SubmitOptions {
+  title: string;
+  description: string;
+  category?: FeedbackCategory;
+  screenshot?: string;    // PNG data URL the page already has
+  captureScreenshot?: 'full' | Element;
+}
+
+type ContextValue = string | number | boolean;
+
+// The host app's signed-in user; name and email prefill the form, id goes in the context table
+interface BugDropUser {
+  id?: string | number;
+  name?: string;
+  email?: string;
 }
 
 // Declare global BugDrop API
@@ -62,9 +108,14 @@ interface FeedbackData {
   description: string;
   category: FeedbackCategory;
   screenshot: string | null;
+  annotations: string | null; // Annotated copy of the screenshot
   elementSelector: string | null;
   name?: string;
   email?: string;
+  honeypot?: string;
+  formFillMs?: number;
+  attachments: File[];
+  domSnapshot: Blob | null;   // Gzipped page HTML
 }
 
 // localStorage key for dismissed state
@@ -116,18 +167,6 @@ function parseOS(ua: string): { name: string; version: string } {
   return { name: 'Unknown', version: '' };
 }
 
-// Redact sensitive parts of URL (query params, common ID patterns)
-function redactUrl(url: string): string {
-  try {
-    const parsed = new URL(url);
-    // Remove query string and hash
-    return `${parsed.origin}${parsed.pathname}`;
-  } catch {
-    // If URL parsing fails, return as-is but try to strip query params
-    return url.split('?')[0].split('#')[0];
-  }
-}
-
 // Collect system info for feedback submission
 function getSystemInfo(): {
   browser: { name: string; version: string };
@@ -152,6 +191,12 @@ let _triggerButton: HTMLElement | null = null;
 let _pullTab: HTMLElement | null = null;
 let _isModalOpen = false;
 let _widgetConfig: WidgetConfig | null = null;
+// The error toast is shown at most once per page load
+let _errorPrompted = false;
+// Set by the host page through setContext, setUser and setTags, and sent with every report
+const _context: Record<string, ContextValue> = {};
+let _user: BugDropUser | null = null;
+let _tags: string[] = [];
 
 // Helper to check if button was dismissed
 function isButtonDismissed(dismissDuration?: number): boolean {
@@ -199,6 +244,18 @@ const config: WidgetConfig = {
   requireName: script?.dataset.requireName === 'true',
   showEmail: script?.dataset.showEmail === 'true',
   requireEmail: script?.dataset.requireEmail === 'true',
+  // Attachment drop zone (off unless explicitly enabled)
+  showAttachments: script?.dataset.attachments === 'true',
+  // Console capture (off unless explicitly enabled)
+  captureConsole: script?.dataset.captureConsole === 'true',
+  // Network capture (off unless explicitly enabled)
+  captureNetwork: script?.dataset.captureNetwork === 'true',
+  // Error toast (off unless explicitly enabled)
+  promptOnError: script?.dataset.promptOnError === 'true',
+  // Breadcrumbs (off unless explicitly enabled)
+  breadcrumbs: script?.dataset.breadcrumbs === 'true',
+  // DOM snapshot (off unless explicitly enabled)
+  captureDom: script?.dataset.captureDom === 'true',
   // Dismissible button configuration
   buttonDismissible: script?.dataset.buttonDismissible === 'true',
   dismissDuration: script?.dataset.dismissDuration
@@ -223,8 +280,24 @@ const config: WidgetConfig = {
   borderWidth: script?.dataset.borderWidth || undefined,
   borderColor: script?.dataset.borderColor || undefined,
   shadow: script?.dataset.shadow || undefined,
+  // Verified submitter identity
+  userToken: script?.dataset.userToken || undefined,
 };
 
+// Start recording before the widget renders, so logs from page load are kept
+if (config.captureConsole) {
+  startConsoleCapture();
+}
+if (config.captureNetwork) {
+  // The widget's own API calls (challenge, feedback) aren't part of the page's behavior
+  startNetworkCapture([config.apiUrl]);
+}
+// Uncaught errors are always kept for the next report; the toast is opt-in
+startErrorCapture(config.promptOnError ? promptToReportError : undefined);
+if (config.breadcrumbs) {
+  startBreadcrumbs();
+}
+
 // Validate config
 if (!config.repo) {
   console.error('[BugDrop] Missing data-repo attribute');
@@ -431,9 +504,83 @@ function exposeBugDropAPI(root: HTMLElement, config: WidgetConfig) {
       return _triggerButton !== null &&
         _triggerButton.style.display !== 'none';
     },
+
+    // Set (or clear with null) the host-signed token identifying the current user
+    identify: (token: string | null) => {
+      config.userToken = token || undefined;
+    },
+
+    // Add a key/value to the report's context table (null removes it)
+    setContext: (key: string, value: ContextValue | null) => {
+      if (!key) return;
+      if (value === null || value === undefined) {
+        delete _context[key];
+      } else if (['string', 'number', 'boolean'].includes(typeof value)) {
+        _context[key] = value;
+      }
+    },
+
+    // Set (or clear with null) the signed-in user
+    setUser: (user: BugDropUser | null) => {
+      _user = user && typeof user === 'object' ? { id: user.id, name: user.name, email: user.email } : null;
+    },
+
+    // Replace the report's tags; the repo's allowedTags decide which become labels
+    setTags: (tags: string[]) => {
+      _tags = Array.isArray(tags) ? tags.filter((tag) => typeof tag === 'string' && tag.trim()).map((tag) => tag.trim()) : [];
+    },
+
+    // Submit a report without any widget UI; rejects with a BugDropSubmitError
+    submit: (options: SubmitOptions) => submitHeadless(config, options),
   };
 }
 
+// BugDrop.submit: validate the options, take the screenshot if asked, and send the report
+async function submitHeadless(config: WidgetConfig, options: SubmitOptions): Promise<SubmitResult> {
+  const title = typeof options?.title === 'string' ? options.title.trim() : '';
+  const description = typeof options?.description === 'string' ? options.description.trim() : '';
+  if (!title || !description) {
+    throw new BugDropSubmitError('A title and description are required', 'invalid');
+  }
+  const category = options.category ?? 'bug';
+  if (!['bug', 'feature', 'question'].includes(category)) {
+    throw new BugDropSubmitError(`Unknown category: ${category}`, 'invalid');
+  }
+  if (options.screenshot !== undefined && !/^data:image\/png;base64,/.test(options.screenshot)) {
+    throw new BugDropSubmitError('screenshot must be a PNG data URL', 'invalid');
+  }
+
+  // Snapshot the page before anything else runs, as the modal flow does
+  const domSnapshot = config.captureDom ? await captureDomSnapshot().catch(() => null) : null;
+
+  let screenshot = options.screenshot ?? null;
+  let elementSelector: string | null = null;
+  if (!screenshot && options.captureScreenshot) {
+    const element = options.captureScreenshot === 'full' ? undefined : options.captureScreenshot;
+    try {
+      screenshot = await captureScreenshot(element);
+    } catch (_error) {
+      throw new BugDropSubmitError('Failed to capture screenshot', 'screenshot');
+    }
+    if (element) {
+      elementSelector = getElementSelector(element);
+    }
+  }
+
+  return sendFeedback(config, {
+    title,
+    description,
+    category,
+    name: _user?.name,
+    email: _user?.email,
+    screenshot,
+    annotations: null,
+    elementSelector,
+    attachments: [],
+    domSnapshot,
+  });
+}
+
 // Helper to create the trigger button (used by show() API and pull tab restore)
 function createTriggerButton(root: HTMLElement, config: WidgetConfig, isRestoring = false) {
   const trigger = document.createElement('button');
@@ -478,7 +625,26 @@ function createTriggerButton(root: HTMLElement, config: WidgetConfig, isRestorin
   trigger.addEventListener('click', () => openFeedbackFlow(root, config));
 }
 
-async function openFeedbackFlow(root: HTMLElement, config: WidgetConfig) {
+// Offer to report the first uncaught error, unless the form is already open
+async function promptToReportError(error: { message: string }) {
+  if (_errorPrompted || _isModalOpen || !_widgetRoot || !_widgetConfig) return;
+  _errorPrompted = true;
+
+  const root = _widgetRoot;
+  const config = _widgetConfig;
+  if (await showErrorToast(root, error.message) && !_isModalOpen) {
+    openFeedbackFlow(root, config, {
+      category: 'bug',
+      title: truncate(`Error: ${error.message}`, 120),
+    });
+  }
+}
+
+function truncate(text: string, length: number): string {
+  return text.length > length ? `${text.slice(0, length - 1)}…` : text;
+}
+
+async function openFeedbackFlow(root: HTMLElement, config: WidgetConfig, prefill?: FeedbackPrefill) {
   // Mark modal as open
   _isModalOpen = true;
 
@@ -496,8 +662,11 @@ async function openFeedbackFlow(root: HTMLElement, config: WidgetConfig) {
     return;
   }
 
+  // Solve the anti-spam challenge in the background while the form is filled in
+  prepareProofOfWork(config.apiUrl, config.repo);
+
   // Step 2: Feedback form (with optional screenshot checkbox)
-  const formResult = await showFeedbackFormWithScreenshotOption(root, config);
+  const formResult = await showFeedbackFormWithScreenshotOption(root, config, prefill);
   if (!formResult) {
     // User cancelled
     _isModalOpen = false;
@@ -505,8 +674,12 @@ async function openFeedbackFlow(root: HTMLElement, config: WidgetConfig) {
   }
 
   let screenshot: string | null = null;
+  let annotations: string | null = null;
   let elementSelector: string | null = null;
 
+  // Snapshot the page before the screenshot steps change anything (the widget itself is left out)
+  const domSnapshot = config.captureDom ? await captureDomSnapshot().catch(() => null) : null;
+
   // Step 3: Screenshot flow (if user opted in)
   if (formResult.includeScreenshot) {
     const screenshotChoice = await showScreenshotOptions(root);
@@ -530,9 +703,9 @@ async function openFeedbackFlow(root: HTMLElement, config: WidgetConfig) {
       }
     }
 
-    // Step 4: Annotate (if screenshot exists)
+    // Step 4: Annotate (if screenshot exists); the original is sent alongside the annotated copy
     if (screenshot) {
-      screenshot = await showAnnotationStep(root, screenshot, config);
+      annotations = await showAnnotationStep(root, screenshot, config);
     }
   }
 
@@ -543,8 +716,13 @@ async function openFeedbackFlow(root: HTMLElement, config: WidgetConfig) {
     category: formResult.category,
     name: formResult.name,
     email: formResult.email,
+    honeypot: formResult.honeypot,
+    formFillMs: formResult.formFillMs,
     screenshot,
+    annotations,
     elementSelector,
+    attachments: formResult.attachments,
+    domSnapshot,
   });
 
   // Flow complete
@@ -691,6 +869,13 @@ function showWelcomeScreen(root: HTMLElement): Promise<boolean> {
 
 type FeedbackCategory = 'bug' | 'feature' | 'question';
 
+// Initial values for the feedback form
+interface FeedbackPrefill {
+  category?: FeedbackCategory;
+  title?: string;
+  description?: string;
+}
+
 interface FeedbackFormResult {
   title: string;
   description: string;
@@ -698,11 +883,15 @@ interface FeedbackFormResult {
   name?: string;
   email?: string;
   includeScreenshot: boolean;
+  honeypot?: string;
+  formFillMs: number;
+  attachments: File[];
 }
 
 function showFeedbackFormWithScreenshotOption(
   root: HTMLElement,
-  config: WidgetConfig
+  config: WidgetConfig,
+  prefill?: FeedbackPrefill
 ): Promise<FeedbackFormResult | null> {
   return new Promise((resolve) => {
     // Build optional name field
@@ -730,6 +919,10 @@ function showFeedbackFormWithScreenshotOption(
       'Send Feedback',
       `
         <form id="feedback-form">
+          <div aria-hidden="true" style="position: absolute; left: -10000px; width: 1px; height: 1px; overflow: hidden;">
+            <label for="website">Website</label>
+            <input type="text" id="website" name="website" tabindex="-1" autocomplete="off" />
+          </div>
           ${nameFieldHtml}
           ${emailFieldHtml}
           <div class="bd-form-group">
@@ -757,6 +950,7 @@ function showFeedbackFormWithScreenshotOption(
             <label class="bd-label" for="description">Description</label>
             <textarea id="description" class="bd-textarea" placeholder="Provide additional details, steps to reproduce, or context..."></textarea>
           </div>
+          ${config.showAttachments ? ATTACHMENT_FIELD_HTML : ''}
           <div class="bd-form-group" style="display: flex; align-items: center; gap: 10px; margin-top: 8px;">
             <input type="checkbox" id="include-screenshot" style="width: 18px; height: 18px; accent-color: var(--bd-primary); cursor: pointer;" />
             <label for="include-screenshot" style="font-size: 0.95rem; color: var(--bd-text-secondary); cursor: pointer; user-select: none;">
@@ -777,6 +971,20 @@ function showFeedbackFormWithScreenshotOption(
     const titleInput = modal.querySelector('#title') as HTMLInputElement;
     const descInput = modal.querySelector('#description') as HTMLTextAreaElement;
     const screenshotCheckbox = modal.querySelector('#include-screenshot') as HTMLInputElement;
+    // Hidden from people; bots that fill every field give themselves away
+    const honeypotInput = modal.querySelector('#website') as HTMLInputElement;
+    const openedAt = Date.now();
+    const getAttachments = config.showAttachments ? bindAttachmentField(modal) : () => [];
+
+    // Values are set as properties, not markup, since they may come from the page (e.g. error messages)
+    if (prefill?.title) titleInput.value = prefill.title;
+    if (prefill?.description) descInput.value = prefill.description;
+    if (prefill?.category) {
+      const categoryOption = modal.querySelector(`input[name="category"][value="${prefill.category}"]`) as HTMLInputElement | null;
+      if (categoryOption) categoryOption.checked = true;
+    }
+    if (nameInput && _user?.name) nameInput.value = _user.name;
+    if (emailInput && _user?.email) emailInput.value = _user.email;
     const closeBtn = modal.querySelector('.bd-close') as HTMLElement;
     const cancelBtn = modal.querySelector('[data-action="cancel"]') as HTMLElement;
 
@@ -824,6 +1032,9 @@ function showFeedbackFormWithScreenshotOption(
         name: nameInput?.value.trim() || undefined,
         email: emailInput?.value.trim() || undefined,
         includeScreenshot: screenshotCheckbox.checked,
+        honeypot: honeypotInput.value || undefined,
+        formFillMs: Date.now() - openedAt,
+        attachments: getAttachments(),
       });
     });
 
@@ -876,7 +1087,12 @@ function showScreenshotOptions(root: HTMLElement): Promise<'skip' | 'capture' |
   });
 }
 
-function showAnnotationStep(root: HTMLElement, screenshot: string, config?: WidgetConfig): Promise<string> {
+// Resolves with the annotated image, or null when the screenshot is sent without annotations
+function showAnnotationStep(
+  root: HTMLElement,
+  screenshot: string,
+  config?: WidgetConfig
+): Promise<string | null> {
   return new Promise((resolve) => {
     const modal = createModal(
       root,
@@ -924,13 +1140,13 @@ function showAnnotationStep(root: HTMLElement, screenshot: string, config?: Widg
     closeBtn?.addEventListener('click', () => {
       annotator.destroy();
       modal.remove();
-      resolve(screenshot);
+      resolve(null);
     });
 
     skipBtn?.addEventListener('click', () => {
       annotator.destroy();
       modal.remove();
-      resolve(screenshot);
+      resolve(null);
     });
 
     doneBtn?.addEventListener('click', () => {
@@ -942,6 +1158,28 @@ function showAnnotationStep(root: HTMLElement, screenshot: string, config?: Widg
   });
 }
 
+// Issue created (or commented on) for a submission, also sent as the bugdrop:submitted event
+interface SubmitResult {
+  issueNumber: number;
+  issueUrl: string;
+  isPublic: boolean;
+  duplicateOf?: number;   // Set when the report was added to an existing issue
+  receipt?: string;       // For looking up the issue's status later
+  statusUrl?: string;
+}
+
+type SubmitErrorCode = 'invalid' | 'screenshot' | 'challenge' | 'rejected' | 'network';
+
+// Why a submission failed: invalid options, a screenshot that couldn't be captured, an
+// anti-spam challenge that took too long, the API turning it down (with its HTTP status),
+// or no response at all
+class BugDropSubmitError extends Error {
+  constructor(message: string, readonly code: SubmitErrorCode, readonly status?: number) {
+    super(message);
+    this.name = 'BugDropSubmitError';
+  }
+}
+
 async function submitFeedback(
   root: HTMLElement,
   config: WidgetConfig,
@@ -959,60 +1197,133 @@ async function submitFeedback(
     `
   );
 
+  let result: SubmitResult;
   try {
-    // Build submitter info if provided
-    const submitter = (data.name || data.email)
-      ? { name: data.name, email: data.email }
-      : undefined;
+    result = await sendFeedback(config, data);
+  } catch (error) {
+    modal.remove();
+    const message = error instanceof BugDropSubmitError && error.code !== 'network'
+      ? error.message
+      : 'Network error. Please check your connection.';
+    showSubmitError(root, config, data, message);
+    return;
+  }
 
-    // Collect system info
-    const systemInfo = getSystemInfo();
+  modal.remove();
+  await showSuccessModal(
+    root,
+    result.issueNumber,
+    result.issueUrl,
+    result.isPublic,
+    result.duplicateOf
+  );
+}
 
-    const response = await fetch(`${config.apiUrl}/feedback`, {
-      method: 'POST',
-      headers: { 'Content-Type': 'application/json' },
-      body: JSON.stringify({
-        repo: config.repo,
-        title: data.title,
-        description: data.description,
-        category: data.category,
-        screenshot: data.screenshot,
-        submitter,
-        metadata: {
-          url: systemInfo.url, // Redacted URL (no query params)
-          userAgent: navigator.userAgent,
-          viewport: {
-            width: window.innerWidth,
-            height: window.innerHeight,
-          },
-          timestamp: new Date().toISOString(),
-          elementSelector: data.elementSelector,
-          // Parsed system info
-          browser: systemInfo.browser,
-          os: systemInfo.os,
-          devicePixelRatio: systemInfo.devicePixelRatio,
-          language: systemInfo.language,
-        },
-      }),
-    });
+// POST a report to the API, with no UI; shared by the modal flow and BugDrop.submit
+async function sendFeedback(config: WidgetConfig, data: FeedbackData): Promise<SubmitResult> {
+  // Build submitter info if provided; setUser fills in what the form didn't ask for
+  const name = data.name || (config.showName ? undefined : _user?.name);
+  const email = data.email || (config.showEmail ? undefined : _user?.email);
+  const submitter = (name || email) ? { name, email } : undefined;
+  const custom = _user?.id !== undefined ? { 'user.id': _user.id, ..._context } : { ..._context };
 
-    const result = await response.json();
-    modal.remove();
+  // Collect system info
+  const systemInfo = getSystemInfo();
+  const errors = getCapturedErrors();
 
-    if (result.success) {
-      await showSuccessModal(
-        root,
-        result.issueNumber,
-        result.issueUrl,
-        result.isPublic ?? false
-      );
-    } else {
-      showSubmitError(root, config, data, result.error || 'Failed to submit');
+  let proofOfWork;
+  try {
+    proofOfWork = await takeProofOfWork(config.apiUrl, config.repo);
+  } catch (error) {
+    throw new BugDropSubmitError((error as Error).message, 'challenge');
+  }
+
+  const payload = {
+    repo: config.repo,
+    title: data.title,
+    description: data.description,
+    category: data.category,
+    submitter,
+    userToken: config.userToken,
+    proofOfWork,
+    honeypot: data.honeypot,
+    formFillMs: data.formFillMs,
+    consoleLogs: config.captureConsole ? getConsoleLogs() : undefined,
+    breadcrumbs: config.breadcrumbs ? getBreadcrumbs() : undefined,
+    tags: _tags.length > 0 ? _tags : undefined,
+    metadata: {
+      url: systemInfo.url, // Redacted URL (no query params)
+      userAgent: navigator.userAgent,
+      viewport: {
+        width: window.innerWidth,
+        height: window.innerHeight,
+      },
+      timestamp: new Date().toISOString(),
+      elementSelector: data.elementSelector,
+      // Parsed system info
+      browser: systemInfo.browser,
+      os: systemInfo.os,
+      devicePixelRatio: systemInfo.devicePixelRatio,
+      language: systemInfo.language,
+      network: config.captureNetwork ? getNetworkRequests() : undefined,
+      errors: errors.length > 0 ? errors : undefined,
+      custom: Object.keys(custom).length > 0 ? custom : undefined,
+    },
+  };
+
+  // Screenshots and attachments go as binary multipart parts (base64 JSON adds a third to the upload)
+  let body: BodyInit;
+  const headers: Record<string, string> = {};
+  if (data.screenshot || data.attachments.length > 0 || data.domSnapshot) {
+    const form = new FormData();
+    form.append('payload', JSON.stringify(payload));
+    if (data.screenshot) {
+      form.append('screenshot', dataUrlToBlob(data.screenshot), 'screenshot.png');
+    }
+    if (data.annotations) {
+      form.append('annotations', dataUrlToBlob(data.annotations), 'annotations.png');
     }
+    for (const file of data.attachments) {
+      form.append('attachment', file, file.name);
+    }
+    if (data.domSnapshot) {
+      form.append('domSnapshot', data.domSnapshot, 'dom-snapshot.html.gz');
+    }
+    body = form;
+  } else {
+    body = JSON.stringify(payload);
+    headers['Content-Type'] = 'application/json';
+  }
+
+  let response: Response;
+  let result;
+  try {
+    response = await fetch(`${config.apiUrl}/feedback`, {
+      method: 'POST',
+      headers,
+      body,
+    });
+    result = await response.json();
   } catch (_error) {
-    modal.remove();
-    showSubmitError(root, config, data, 'Network error. Please check your connection.');
+    throw new BugDropSubmitError('Network error', 'network');
+  }
+
+  if (!result.success) {
+    throw new BugDropSubmitError(result.error || 'Failed to submit', 'rejected', response.status);
   }
+
+  clearCapturedErrors();
+  const submitted: SubmitResult = {
+    issueNumber: result.issueNumber,
+    issueUrl: result.issueUrl,
+    isPublic: result.isPublic ?? false,
+    duplicateOf: result.duplicateOf,
+    receipt: result.receipt,
+    statusUrl: result.statusUrl,
+  };
+  // Lets the host page keep the receipt to track the issue later
+  window.dispatchEvent(new CustomEvent('bugdrop:submitted', { detail: submitted }));
+  return submitted;
 }
 
 function showSubmitError(
@@ -1050,34 +1361,3 @@ function showSubmitError(
     await submitFeedback(root, config, data);
   });
 }
-
-function getElementSelector(element: Element): string {
-  const path: string[] = [];
-  let current: Element | null = element;
-
-  while (current && current !== document.body) {
-    let selector = current.tagName.toLowerCase();
-
-    if (current.id) {
-      selector = `#${current.id}`;
-      path.unshift(selector);
-      break;
-    }
-
-    if (current.className) {
-      // Handle SVG elements where className is SVGAnimatedString, not a string
-      const classNameStr = typeof current.className === 'string'
-        ? current.className
-        : (current.className as SVGAnimatedString).baseVal || '';
-      const classes = classNameStr.split(' ').filter(c => c).slice(0, 2);
-      if (classes.length) {
-        selector += `.${classes.join('.')}`;
-      }
-    }
-
-    path.unshift(selector);
-    current = current.parentElement;
-  }
-
-  return path.join(' > ');
-}
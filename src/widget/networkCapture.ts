@@ -0,0 +1,112 @@
+import { redactUrl } from './redact';
+
+interface NetworkRequestEntry {
+  method: string;
+  url: string;         // Redacted (no query string or fragment)
+  status: number;      // 0 when the request failed without a response
+  durationMs: number;
+  timestamp: string;   // When the request started
+}
+
+// Only the most recent problems are kept; slow means at least this long
+const MAX_ENTRIES = 20;
+const SLOW_REQUEST_MS = 3000;
+
+const entries: NetworkRequestEntry[] = [];
+let capturing = false;
+
+// Requests to these URL prefixes (the widget's own API) are never recorded
+let ignoredPrefixes: string[] = [];
+
+// Wrap fetch and XMLHttpRequest to record failed or slow requests
+// Only the method, URL, status and timing are kept, never headers or bodies
+export function startNetworkCapture(ignore: string[]): void {
+  if (capturing) return;
+  capturing = true;
+  ignoredPrefixes = ignore.filter(Boolean);
+
+  instrumentFetch();
+  instrumentXhr();
+}
+
+// Snapshot of the recorded requests, oldest first
+export function getNetworkRequests(): NetworkRequestEntry[] {
+  return entries.slice();
+}
+
+function instrumentFetch(): void {
+  const originalFetch = globalThis.fetch;
+  if (typeof originalFetch !== 'function') return;
+
+  globalThis.fetch = async (input: RequestInfo | URL, init?: RequestInit) => {
+    const url = input instanceof Request ? input.url : String(input);
+    const method = init?.method || (input instanceof Request ? input.method : 'GET');
+    const startedAt = Date.now();
+    try {
+      const response = await originalFetch(input, init);
+      record(method, url, response.status, startedAt);
+      return response;
+    } catch (error) {
+      record(method, url, 0, startedAt);
+      throw error;
+    }
+  };
+}
+
+function instrumentXhr(): void {
+  if (typeof XMLHttpRequest === 'undefined') return;
+
+  const requests = new WeakMap<XMLHttpRequest, { method: string; url: string }>();
+  const originalOpen = XMLHttpRequest.prototype.open;
+  const originalSend = XMLHttpRequest.prototype.send;
+
+  XMLHttpRequest.prototype.open = function (this: XMLHttpRequest, method: string, url: string | URL, ...rest: unknown[]) {
+    requests.set(this, { method, url: String(url) });
+    return originalOpen.apply(this, [method, url, ...rest] as Parameters<typeof originalOpen>);
+  };
+
+  XMLHttpRequest.prototype.send = function (this: XMLHttpRequest, body?: Document | XMLHttpRequestBodyInit | null) {
+    const request = requests.get(this);
+    if (request) {
+      const startedAt = Date.now();
+      let aborted = false;
+      this.addEventListener('abort', () => { aborted = true; });
+      this.addEventListener('loadend', () => {
+        if (!aborted) record(request.method, request.url, this.status, startedAt);
+      });
+    }
+    return originalSend.call(this, body);
+  };
+}
+
+function record(method: string, rawUrl: string, status: number, startedAt: number): void {
+  try {
+    const url = resolveUrl(rawUrl);
+    const durationMs = Date.now() - startedAt;
+    const failed = status === 0 || status >= 400;
+    if ((!failed && durationMs < SLOW_REQUEST_MS) || ignoredPrefixes.some((prefix) => url.startsWith(prefix))) {
+      return;
+    }
+
+    entries.push({
+      method: method.toUpperCase(),
+      url: redactUrl(url),
+      status,
+      durationMs,
+      timestamp: new Date(startedAt).toISOString(),
+    });
+    if (entries.length > MAX_ENTRIES) {
+      entries.shift();
+    }
+  } catch {
+    // Never let capture break the page's own requests
+  }
+}
+
+function resolveUrl(url: string): string {
+  try {
+    return new URL(url, location.href).href;
+  } catch {
+    return url;
+  }
+}
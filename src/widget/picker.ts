@@ -122,3 +122,35 @@ function startPicker(resolve: (element: Element | null) => void, style?: PickerS
   document.addEventListener('click', onClick, true);
   document.addEventListener('keydown', onKeyDown);
 }
+
+// Short CSS path to an element, stopping at the nearest ancestor with an ID
+export function getElementSelector(element: Element): string {
+  const path: string[] = [];
+  let current: Element | null = element;
+
+  while (current && current !== document.body) {
+    let selector = current.tagName.toLowerCase();
+
+    if (current.id) {
+      selector = `#${current.id}`;
+      path.unshift(selector);
+      break;
+    }
+
+    if (current.className) {
+      // Handle SVG elements where className is SVGAnimatedString, not a string
+      const classNameStr = typeof current.className === 'string'
+        ? current.className
+        : (current.className as SVGAnimatedString).baseVal || '';
+      const classes = classNameStr.split(' ').filter(c => c).slice(0, 2);
+      if (classes.length) {
+        selector += `.${classes.join('.')}`;
+      }
+    }
+
+    path.unshift(selector);
+    current = current.parentElement;
+  }
+
+  return path.join(' > ');
+}
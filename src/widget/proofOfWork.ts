@@ -0,0 +1,71 @@
+// Proof-of-work for anonymous submissions: fetch a challenge from the Worker and
+// find a solution where SHA-256("<challenge>:<solution>") starts with `difficulty` zero bits
+
+interface ProofOfWork {
+  challenge: string;
+  solution: string;
+}
+
+// Give up on a challenge after this long rather than hashing forever
+const MAX_SOLVE_MS = 60 * 1000;
+
+// Challenge being solved in the background while the form is filled in
+let pending: Promise<ProofOfWork | undefined> | null = null;
+
+/**
+ * Start solving a challenge for the next submission
+ */
+export function prepareProofOfWork(apiUrl: string, repo: string): void {
+  pending = solveChallenge(apiUrl, repo);
+  // A timeout is reported when the solution is taken, not as an unhandled rejection
+  pending.catch(() => {});
+}
+
+/**
+ * Get the solution for a submission, solving a fresh challenge if none is prepared
+ * Each solution can only be used once, so a retry always solves a new one
+ * Rejects when the challenge can't be solved within MAX_SOLVE_MS
+ */
+export function takeProofOfWork(apiUrl: string, repo: string): Promise<ProofOfWork | undefined> {
+  const solution = pending || solveChallenge(apiUrl, repo);
+  pending = null;
+  return solution;
+}
+
+async function solveChallenge(apiUrl: string, repo: string): Promise<ProofOfWork | undefined> {
+  let data: { required?: boolean; challenge?: string; difficulty?: number };
+  try {
+    const response = await fetch(`${apiUrl}/challenge?repo=${encodeURIComponent(repo)}`);
+    if (!response.ok) {
+      return undefined;
+    }
+    data = await response.json();
+  } catch {
+    // Submit without a solution; the Worker reports if one was required
+    return undefined;
+  }
+  if (!data.required || !data.challenge || typeof data.difficulty !== 'number') {
+    return undefined;
+  }
+
+  const encoder = new TextEncoder();
+  const deadline = Date.now() + MAX_SOLVE_MS;
+  for (let nonce = 0; Date.now() < deadline; nonce++) {
+    const solution = nonce.toString(36);
+    // digest() is async, so the page stays responsive while this runs
+    const hash = await crypto.subtle.digest('SHA-256', encoder.encode(`${data.challenge}:${solution}`));
+    if (hasLeadingZeroBits(new Uint8Array(hash), data.difficulty)) {
+      return { challenge: data.challenge, solution };
+    }
+  }
+  throw new Error(`Anti-spam check (difficulty ${data.difficulty}) took too long to solve`);
+}
+
+function hasLeadingZeroBits(hash: Uint8Array, bits: number): boolean {
+  for (let i = 0; i < bits; i++) {
+    if (hash[i >> 3] & (0x80 >> (i & 7))) {
+      return false;
+    }
+  }
+  return true;
+}
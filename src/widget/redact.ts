@@ -0,0 +1,20 @@
+// Redact sensitive parts of URL (query params, common ID patterns)
+export function redactUrl(url: string): string {
+  try {
+    const parsed = new URL(url);
+    // Remove query string and hash
+    return `${parsed.origin}${parsed.pathname}`;
+  } catch {
+    // If URL parsing fails, return as-is but try to strip query params
+    return url.split('?')[0].split('#')[0];
+  }
+}
+
+// Apply redactUrl to every URL inside free text, such as a log line or stack trace
+export function redactUrlsInText(text: string): string {
+  return text.replace(/\bhttps?:\/\/[^\s"'<>`()]+/g, (url) => {
+    // Stack frames put the line and column after the query string; keep them
+    const position = /[?#]/.test(url) ? url.match(/(?::\d+){1,2}$/)?.[0] || '' : '';
+    return redactUrl(url.slice(0, url.length - position.length)) + position;
+  });
+}
@@ -645,6 +645,69 @@ export function injectStyles(shadow: ShadowRoot, config: WidgetConfig) {
       margin-top: 4px;
     }
 
+    /* Attachments */
+    .bd-dropzone {
+      padding: 14px;
+      border: 2px dashed var(--bd-border);
+      border-radius: var(--bd-radius-sm);
+      text-align: center;
+      font-size: 14px;
+      color: var(--bd-text-secondary);
+      cursor: pointer;
+      transition: border-color var(--bd-transition), background var(--bd-transition);
+    }
+
+    .bd-dropzone:hover, .bd-dropzone:focus, .bd-dropzone--active {
+      outline: none;
+      border-color: var(--bd-border-focus);
+      background: color-mix(in srgb, var(--bd-border-focus) 6%, transparent);
+    }
+
+    .bd-dropzone-link {
+      color: var(--bd-primary);
+      text-decoration: underline;
+    }
+
+    .bd-dropzone-hint {
+      margin-top: 4px;
+      font-size: 12px;
+      color: var(--bd-text-muted);
+    }
+
+    .bd-attachment-list {
+      list-style: none;
+      margin: 8px 0 0;
+      padding: 0;
+    }
+
+    .bd-attachment-item {
+      display: flex;
+      align-items: center;
+      justify-content: space-between;
+      gap: 8px;
+      padding: 4px 0;
+      font-size: 13px;
+      color: var(--bd-text-secondary);
+    }
+
+    .bd-attachment-name {
+      overflow: hidden;
+      text-overflow: ellipsis;
+      white-space: nowrap;
+    }
+
+    .bd-attachment-remove {
+      border: none;
+      background: none;
+      color: var(--bd-text-muted);
+      font-size: 16px;
+      cursor: pointer;
+    }
+
+    .bd-attachment-remove:hover {
+      color: var(--bd-error);
+    }
+
     /* Actions */
     .bd-actions {
       display: flex;
@@ -727,6 +790,42 @@ export function injectStyles(shadow: ShadowRoot, config: WidgetConfig) {
       background: var(--bd-error);
     }
 
+    .bd-toast--prompt {
+      max-width: 360px;
+      background: var(--bd-bg-primary);
+      color: var(--bd-text-primary);
+      border: var(--bd-border-style);
+      font-weight: 400;
+    }
+
+    .bd-toast-text {
+      display: flex;
+      flex-direction: column;
+      gap: 2px;
+      min-width: 0;
+    }
+
+    .bd-toast-detail {
+      overflow: hidden;
+      text-overflow: ellipsis;
+      white-space: nowrap;
+      font-size: 12px;
+      color: var(--bd-text-secondary);
+    }
+
+    .bd-toast--prompt .bd-btn {
+      padding: 6px 12px;
+      flex-shrink: 0;
+    }
+
+    .bd-toast-close {
+      border: none;
+      background: none;
+      color: var(--bd-text-muted);
+      font-size: 18px;
+      cursor: pointer;
+    }
+
     /* Animations */
     @keyframes bd-fadeIn {
       from { opacity: 0; transform: translateY(8px); }
@@ -1037,12 +1136,21 @@ export function showSuccessModal(
   container: HTMLElement,
   issueNumber: number,
   issueUrl: string,
-  isPublic: boolean
+  isPublic: boolean,
+  duplicateOf?: number
 ): Promise<void> {
   return new Promise((resolve) => {
+    // Repeat reports are added to the existing issue rather than opening a new one
+    const issueMessage = duplicateOf
+      ? `Your report was added to existing issue <strong>#${issueNumber}</strong>.`
+      : `Issue <strong>#${issueNumber}</strong> has been created.`;
+    const privateMessage = duplicateOf
+      ? 'Thanks! This was already reported, so your feedback was added to the existing report.'
+      : 'Your feedback has been submitted successfully.';
+
     const issueInfo = isPublic
       ? `
-        <p class="bd-success-issue">Issue <strong>#${issueNumber}</strong> has been created.</p>
+        <p class="bd-success-issue">${issueMessage}</p>
         <a href="${issueUrl}" target="_blank" rel="noopener noreferrer" class="bd-issue-link">
           <svg viewBox="0 0 16 16" fill="currentColor" width="16" height="16">
             <path d="M8 0c4.42 0 8 3.58 8 8a8.013 8.013 0 0 1-5.45 7.59c-.4.08-.55-.17-.55-.38 0-.27.01-1.13.01-2.2 0-.75-.25-1.23-.54-1.48 1.78-.2 3.65-.88 3.65-3.95 0-.88-.31-1.59-.82-2.15.08-.2.36-1.02-.08-2.12 0 0-.67-.22-2.2.82-.64-.18-1.32-.27-2-.27-.68 0-1.36.09-2 .27-1.53-1.03-2.2-.82-2.2-.82-.44 1.1-.16 1.92-.08 2.12-.51.56-.82 1.28-.82 2.15 0 3.06 1.86 3.75 3.64 3.95-.23.2-.44.55-.51 1.07-.46.21-1.61.55-2.33-.66-.15-.24-.6-.83-1.23-.82-.67.01-.27.38.01.53.34.19.73.9.82 1.13.16.45.68 1.31 2.69.94 0 .67.01 1.3.01 1.49 0 .21-.15.45-.55.38A7.995 7.995 0 0 1 0 8c0-4.42 3.58-8 8-8Z"/>
@@ -1050,7 +1158,7 @@ export function showSuccessModal(
           View on GitHub
         </a>
       `
-      : `<p class="bd-success-issue">Your feedback has been submitted successfully.</p>`;
+      : `<p class="bd-success-issue">${privateMessage}</p>`;
 
     const modal = createModal(
       container,
@@ -1084,3 +1192,35 @@ export function showSuccessModal(
   });
 }
 
+
+// Small prompt shown after an uncaught error; resolves true if the user chooses to report it
+export function showErrorToast(container: HTMLElement, message: string): Promise<boolean> {
+  return new Promise((resolve) => {
+    const toast = document.createElement('div');
+    toast.className = 'bd-toast bd-toast--prompt';
+    toast.setAttribute('role', 'status');
+    toast.innerHTML = `
+      <span class="bd-toast-text">
+        <strong>Something went wrong.</strong>
+        <span class="bd-toast-detail"></span>
+      </span>
+      <button class="bd-btn bd-btn-primary" data-action="report">Report</button>
+      <button class="bd-toast-close" aria-label="Dismiss">&times;</button>
+    `;
+    // The message comes from the page, so it's set as text rather than HTML
+    (toast.querySelector('.bd-toast-detail') as HTMLElement).textContent = message;
+
+    // Leaves on its own after a while so it never gets in the way
+    const timer = setTimeout(() => close(false), 10000);
+    const close = (report: boolean) => {
+      clearTimeout(timer);
+      toast.remove();
+      resolve(report);
+    };
+
+    toast.querySelector('[data-action="report"]')?.addEventListener('click', () => close(true));
+    toast.querySelector('.bd-toast-close')?.addEventListener('click', () => close(false));
+
+    container.appendChild(toast);
+  });
+}
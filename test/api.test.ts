@@ -1,18 +1,60 @@
 import { describe, it, expect, vi, beforeEach } from 'vitest';
 import { Hono } from 'hono';
-import type { Env, FeedbackPayload } from '../src/types';
+import type { Env, FeedbackPayload, RepoConfig } from '../src/types';
 
 // Mock GitHub API functions
 const mockGetInstallationToken = vi.fn();
 const mockCreateIssue = vi.fn();
 const mockUploadScreenshotAsAsset = vi.fn();
+const mockUploadAttachmentAsAsset = vi.fn();
 const mockIsRepoPublic = vi.fn();
+const mockListOpenIssues = vi.fn();
+const mockAddIssueComment = vi.fn();
+const mockGetIssue = vi.fn();
+const mockListIssueComments = vi.fn();
+const mockGetRepoConfig = vi.fn();
+const mockGetIssueTemplate = vi.fn();
+const mockNotifySubmission = vi.fn();
 
 vi.mock('../src/lib/github', () => ({
   getInstallationToken: (...args: unknown[]) => mockGetInstallationToken(...args),
   createIssue: (...args: unknown[]) => mockCreateIssue(...args),
-  uploadScreenshotAsAsset: (...args: unknown[]) => mockUploadScreenshotAsAsset(...args),
   isRepoPublic: (...args: unknown[]) => mockIsRepoPublic(...args),
+  listOpenIssues: (...args: unknown[]) => mockListOpenIssues(...args),
+  addIssueComment: (...args: unknown[]) => mockAddIssueComment(...args),
+  getIssue: (...args: unknown[]) => mockGetIssue(...args),
+  listIssueComments: (...args: unknown[]) => mockListIssueComments(...args),
+}));
+
+vi.mock('../src/lib/assetBranch', () => ({
+  uploadScreenshotAsAsset: (...args: unknown[]) => mockUploadScreenshotAsAsset(...args),
+  uploadAttachmentAsAsset: (...args: unknown[]) => mockUploadAttachmentAsAsset(...args),
+}));
+
+vi.mock('../src/lib/repoConfig', () => ({
+  getRepoConfig: (...args: unknown[]) => mockGetRepoConfig(...args),
+  getIssueTemplate: (...args: unknown[]) => mockGetIssueTemplate(...args),
+}));
+
+const defaultRepoConfig: RepoConfig = {
+  categoryLabels: { bug: 'bug', feature: 'enhancement', question: 'question' },
+  labels: [],
+  allowedTags: [],
+  assignees: [],
+  titlePrefix: '',
+  screenshotBranch: 'bugdrop-assets',
+  screenshotRetentionDays: 0,
+  detectDuplicates: true,
+  showMaintainerComments: false,
+  notifications: [],
+  // Proof-of-work only applies with SIGNING_SECRET; its tests opt in explicitly
+  challengeDifficulty: 0,
+  spam: { bannedWords: [], bannedPatterns: [], labelThreshold: 50, rejectThreshold: 100 },
+  redaction: { enabled: true, patterns: [] },
+};
+
+vi.mock('../src/lib/notifications', () => ({
+  notifySubmission: (...args: unknown[]) => mockNotifySubmission(...args),
 }));
 
 // Import API routes after mocking
@@ -37,6 +79,9 @@ describe('API Routes', () => {
     vi.clearAllMocks();
     // Set default mock return values
     mockIsRepoPublic.mockResolvedValue(true);
+    mockListOpenIssues.mockResolvedValue([]);
+    mockGetRepoConfig.mockResolvedValue(defaultRepoConfig);
+    mockGetIssueTemplate.mockResolvedValue(null);
     app = await createApiRoutes();
   });
 
@@ -158,6 +203,7 @@ describe('API Routes', () => {
         issueNumber: 42,
         issueUrl: 'https://github.com/testowner/testrepo/issues/42',
         isPublic: true,
+        spam: expect.objectContaining({ action: 'accept' }),
       });
       expect(mockCreateIssue).toHaveBeenCalledWith(
         'test-token',
@@ -165,7 +211,8 @@ describe('API Routes', () => {
         'testrepo',
         'Test feedback',
         expect.stringContaining('This is a test feedback'),
-        ['bug', 'bugdrop']
+        ['bug', 'bugdrop'],
+        []
       );
     });
 
@@ -285,7 +332,8 @@ describe('API Routes', () => {
         'test-token',
         'testowner',
         'testrepo',
-        screenshotDataUrl
+        screenshotDataUrl,
+        'bugdrop-assets'
       );
       expect(mockCreateIssue).toHaveBeenCalledWith(
         'test-token',
@@ -293,7 +341,8 @@ describe('API Routes', () => {
         'testrepo',
         'Test feedback',
         expect.stringContaining(uploadedUrl),
-        ['bug', 'bugdrop']
+        ['bug', 'bugdrop'],
+        []
       );
     });
 
@@ -323,8 +372,364 @@ describe('API Routes', () => {
         'test-token',
         'testowner',
         'testrepo',
-        screenshotDataUrl
+        screenshotDataUrl,
+        'bugdrop-assets'
+      );
+    });
+
+    it('should upload binary screenshot from multipart body', async () => {
+      mockGetInstallationToken.mockResolvedValue('test-token');
+      const uploadedUrl = 'https://raw.githubusercontent.com/testowner/testrepo/main/.bugdrop/screenshots/123.webp';
+      mockUploadScreenshotAsAsset.mockResolvedValue(uploadedUrl);
+      mockCreateIssue.mockResolvedValue({
+        number: 42,
+        html_url: 'https://github.com/testowner/testrepo/issues/42',
+      });
+
+      const form = new FormData();
+      form.append('payload', JSON.stringify(validPayload));
+      form.append('screenshot', new Blob([new Uint8Array([1, 2, 3])], { type: 'image/webp' }), 'screenshot.webp');
+
+      const req = new Request('http://localhost/feedback', {
+        method: 'POST',
+        body: form,
+      });
+      const res = await app.fetch(req, mockEnv);
+
+      expect(res.status).toBe(200);
+      const uploaded = mockUploadScreenshotAsAsset.mock.calls[0][3];
+      expect(uploaded).toBeInstanceOf(Blob);
+      expect(uploaded.type).toBe('image/webp');
+      expect(mockCreateIssue).toHaveBeenCalledWith(
+        'test-token',
+        'testowner',
+        'testrepo',
+        'Test feedback',
+        expect.stringContaining(uploadedUrl),
+        ['bug', 'bugdrop'],
+        []
+      );
+    });
+
+    it('should upload the original and annotated screenshots', async () => {
+      mockGetInstallationToken.mockResolvedValue('test-token');
+      const originalUrl = 'https://raw.githubusercontent.com/testowner/testrepo/bugdrop-assets/.bugdrop/screenshots/1.png';
+      const annotatedUrl = 'https://raw.githubusercontent.com/testowner/testrepo/bugdrop-assets/.bugdrop/screenshots/2.png';
+      mockUploadScreenshotAsAsset
+        .mockResolvedValueOnce(originalUrl)
+        .mockResolvedValueOnce(annotatedUrl);
+      mockCreateIssue.mockResolvedValue({
+        number: 42,
+        html_url: 'https://github.com/testowner/testrepo/issues/42',
+      });
+
+      const form = new FormData();
+      form.append('payload', JSON.stringify(validPayload));
+      form.append('screenshot', new Blob([new Uint8Array([1])], { type: 'image/png' }), 'screenshot.png');
+      form.append('annotations', new Blob([new Uint8Array([2, 3])], { type: 'image/png' }), 'annotations.png');
+
+      const res = await app.fetch(new Request('http://localhost/feedback', { method: 'POST', body: form }), mockEnv);
+
+      expect(res.status).toBe(200);
+      expect(mockUploadScreenshotAsAsset).toHaveBeenCalledTimes(2);
+      expect(mockUploadScreenshotAsAsset.mock.calls[1][3].size).toBe(2);
+      const issueBody: string = mockCreateIssue.mock.calls[0][4];
+      expect(issueBody).toContain(`![Annotated screenshot](${annotatedUrl})`);
+      expect(issueBody).toContain(
+        `<details>\n<summary>Original screenshot</summary>\n\n![Original screenshot](${originalUrl})`
+      );
+      expect(issueBody.indexOf(annotatedUrl)).toBeLessThan(issueBody.indexOf(originalUrl));
+    });
+
+    it('should include captured console logs as a collapsible block', async () => {
+      mockGetInstallationToken.mockResolvedValue('test-token');
+      mockCreateIssue.mockResolvedValue({
+        number: 42,
+        html_url: 'https://github.com/testowner/testrepo/issues/42',
+      });
+      const consoleLogs = Array.from({ length: 60 }, (_, i) => ({
+        level: i === 59 ? 'error' : 'log',
+        timestamp: '2025-01-15T12:00:00.000Z',
+        message: i === 59 ? 'Uncaught ```TypeError``` for jane@example.com' : `line ${i}`,
+      }));
+
+      await app.fetch(new Request('http://localhost/feedback', {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({ ...validPayload, consoleLogs }),
+      }), mockEnv);
+
+      const issueBody: string = mockCreateIssue.mock.calls[0][4];
+      expect(issueBody).toContain('<summary>Console logs (60 entries, 1 error)</summary>\n\n````\n… 10 earlier entries omitted\n');
+      expect(issueBody).toContain('2025-01-15T12:00:00.000Z LOG   line 10\n');
+      expect(issueBody).not.toContain('line 9\n');
+      expect(issueBody).toContain('ERROR Uncaught ```TypeError``` for [REDACTED EMAIL]\n````\n\n</details>');
+    });
+
+    it('should list breadcrumbs as steps leading up to the report', async () => {
+      mockGetInstallationToken.mockResolvedValue('test-token');
+      mockCreateIssue.mockResolvedValue({
+        number: 42,
+        html_url: 'https://github.com/testowner/testrepo/issues/42',
+      });
+      const breadcrumbs = [
+        { type: 'navigation', detail: 'https://app.example.com/settings', timestamp: '2025-01-15T12:00:00.000Z' },
+        { type: 'focus', detail: 'form#profile > input.email', timestamp: '2025-01-15T12:00:02.000Z' },
+        { type: 'click', detail: 'button[title="Mail jane@example.com"]', timestamp: '2025-01-15T12:00:05.000Z' },
+        { type: 'visibility', detail: 'hidden', timestamp: '2025-01-15T12:00:09.000Z' },
+      ];
+
+      await app.fetch(new Request('http://localhost/feedback', {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({ ...validPayload, breadcrumbs }),
+      }), mockEnv);
+
+      const issueBody: string = mockCreateIssue.mock.calls[0][4];
+      expect(issueBody).toContain([
+        '## Steps leading up to report',
+        '1. `12:00:00` Navigated to `https://app.example.com/settings`',
+        '2. `12:00:02` Focused `form#profile > input.email`',
+        '3. `12:00:05` Clicked `button[title="Mail [REDACTED EMAIL]"]`',
+        '4. `12:00:09` Switched away from the page',
+      ].join('\n'));
+    });
+
+    it('should keep oversized captured data within GitHub\'s issue body limit', async () => {
+      mockGetInstallationToken.mockResolvedValue('test-token');
+      mockCreateIssue.mockResolvedValue({
+        number: 42,
+        html_url: 'https://github.com/testowner/testrepo/issues/42',
+      });
+      const long = 'lorem ipsum dolor '.repeat(1000);
+      const timestamp = '2025-01-15T12:00:00.000Z';
+      const payload = {
+        ...validPayload,
+        consoleLogs: Array.from({ length: 50 }, () => ({ level: 'log', timestamp, message: long })),
+        breadcrumbs: Array.from({ length: 30 }, () => ({ type: 'click', detail: long, timestamp })),
+        metadata: {
+          ...validPayload.metadata,
+          network: Array.from({ length: 20 }, () => ({
+            method: 'GET', url: `https://api.example.com/${long}`, status: 500, durationMs: 12, timestamp,
+          })),
+          errors: Array.from({ length: 10 }, () => ({
+            type: 'error', message: long, stack: Array.from({ length: 20 }, () => `    at ${long}`).join('\n'), timestamp,
+          })),
+          custom: Object.fromEntries(Array.from({ length: 50 }, (_, i) => [`key${i}`, long])),
+        },
+      };
+
+      const res = await app.fetch(new Request('http://localhost/feedback', {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify(payload),
+      }), mockEnv);
+
+      expect(res.status).toBe(200);
+      const issueBody: string = mockCreateIssue.mock.calls[0][4];
+      expect(issueBody.length).toBeLessThan(65536);
+      expect(issueBody).toContain('earlier entries omitted');
+      expect(issueBody).toContain('earlier lines omitted');
+      expect(issueBody).toContain('</details>\n\n<details>\n<summary>System Info</summary>');
+      expect(issueBody).not.toContain('truncated to fit');
+    });
+
+    it('should show host-provided context as a table', async () => {
+      mockGetInstallationToken.mockResolvedValue('test-token');
+      mockCreateIssue.mockResolvedValue({
+        number: 42,
+        html_url: 'https://github.com/testowner/testrepo/issues/42',
+      });
+      const custom = { 'user.id': 1234, plan: 'enterprise', 'flags|beta': true, owner: 'jane@example.com' };
+
+      await app.fetch(new Request('http://localhost/feedback', {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({ ...validPayload, metadata: { ...validPayload.metadata, custom } }),
+      }), mockEnv);
+
+      const issueBody: string = mockCreateIssue.mock.calls[0][4];
+      expect(issueBody).toContain([
+        '## Context',
+        '| Key | Value |',
+        '|-----|-------|',
+        '| user.id | `1234` |',
+        '| plan | `enterprise` |',
+        '| flags\\|beta | `true` |',
+        '| owner | `[REDACTED EMAIL]` |',
+      ].join('\n'));
+    });
+
+    it('should link DOM snapshots stored by the Worker to the viewer', async () => {
+      mockGetInstallationToken.mockResolvedValue('test-token');
+      mockCreateIssue.mockResolvedValue({
+        number: 42,
+        html_url: 'https://github.com/testowner/testrepo/issues/42',
+      });
+      const kv = { put: vi.fn().mockResolvedValue(undefined) };
+      const gzip = await new Response(
+        new Blob(['<html></html>']).stream().pipeThrough(new CompressionStream('gzip'))
+      ).blob();
+      const form = new FormData();
+      form.append('payload', JSON.stringify(validPayload));
+      form.append('domSnapshot', gzip, 'dom-snapshot.html.gz');
+
+      const res = await app.fetch(
+        new Request('http://localhost/feedback', { method: 'POST', body: form }),
+        { ...mockEnv, SCREENSHOT_STORAGE: 'kv', STATE: kv as unknown as KVNamespace }
+      );
+
+      expect(res.status).toBe(200);
+      expect(kv.put).toHaveBeenCalledWith(
+        expect.stringMatching(/^attachment:[0-9a-f]{32}$/),
+        expect.any(ArrayBuffer),
+        { metadata: { contentType: 'application/gzip', filename: 'dom-snapshot.html.gz' } }
       );
+      const id = kv.put.mock.calls[0][0].split(':')[1];
+      const issueBody: string = mockCreateIssue.mock.calls[0][4];
+      expect(issueBody).toContain(
+        `- [DOM snapshot](http://localhost/api/snapshots/${id}) (open to inspect the page as the reporter saw it, ` +
+        `or [download](http://localhost/api/attachments/${id}))`
+      );
+    });
+
+    it('should list captured errors with their stack frames', async () => {
+      mockGetInstallationToken.mockResolvedValue('test-token');
+      mockCreateIssue.mockResolvedValue({
+        number: 42,
+        html_url: 'https://github.com/testowner/testrepo/issues/42',
+      });
+      const errors = [
+        {
+          type: 'error',
+          message: 'TypeError: x is undefined',
+          stack: 'TypeError: x is undefined\n    at render (https://app.example.com/main.js:10:5)\n    at https://app.example.com/main.js:20:1',
+          timestamp: '2025-01-15T12:00:00.000Z',
+        },
+        {
+          type: 'unhandledrejection',
+          message: 'Session expired for jane@example.com',
+          source: 'https://app.example.com/auth.js:3:7',
+          timestamp: '2025-01-15T12:00:01.000Z',
+        },
+      ];
+
+      await app.fetch(new Request('http://localhost/feedback', {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({ ...validPayload, metadata: { ...validPayload.metadata, errors } }),
+      }), mockEnv);
+
+      const issueBody: string = mockCreateIssue.mock.calls[0][4];
+      expect(issueBody).toContain([
+        '## Errors',
+        '```',
+        '2025-01-15T12:00:00.000Z Uncaught: TypeError: x is undefined',
+        '    at render (https://app.example.com/main.js:10:5)',
+        '    at https://app.example.com/main.js:20:1',
+        '2025-01-15T12:00:01.000Z Unhandled rejection: Session expired for [REDACTED EMAIL]',
+        '    at https://app.example.com/auth.js:3:7',
+        '```',
+      ].join('\n'));
+    });
+
+    it('should render captured network requests as a table', async () => {
+      mockGetInstallationToken.mockResolvedValue('test-token');
+      mockCreateIssue.mockResolvedValue({
+        number: 42,
+        html_url: 'https://github.com/testowner/testrepo/issues/42',
+      });
+      const network = [
+        { method: 'GET', url: 'https://api.example.com/users/jane@example.com', status: 500, durationMs: 120.4, timestamp: '2025-01-15T12:00:00.000Z' },
+        { method: 'POST', url: 'https://api.example.com/a|b', status: 0, durationMs: 30, timestamp: '2025-01-15T12:00:01.000Z' },
+      ];
+
+      await app.fetch(new Request('http://localhost/feedback', {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({ ...validPayload, metadata: { ...validPayload.metadata, network } }),
+      }), mockEnv);
+
+      const issueBody: string = mockCreateIssue.mock.calls[0][4];
+      expect(issueBody).toContain([
+        '## Network',
+        '| Time | Method | URL | Status | Duration |',
+        '|------|--------|-----|--------|----------|',
+        '| 2025-01-15T12:00:00.000Z | GET | `https://api.example.com/users/[REDACTED EMAIL]` | 500 | 120 ms |',
+        '| 2025-01-15T12:00:01.000Z | POST | `https://api.example.com/a\\|b` | Failed | 30 ms |',
+      ].join('\n'));
+    });
+
+    it('should list uploaded attachments in the issue body', async () => {
+      vi.spyOn(console, 'error').mockImplementation(() => {});
+      mockGetInstallationToken.mockResolvedValue('test-token');
+      const logUrl = 'https://raw.githubusercontent.com/testowner/testrepo/bugdrop-assets/.bugdrop/attachments/1-app.log';
+      mockUploadAttachmentAsAsset
+        .mockResolvedValueOnce(logUrl)
+        .mockRejectedValueOnce(new Error('409 Conflict'));
+      mockCreateIssue.mockResolvedValue({
+        number: 42,
+        html_url: 'https://github.com/testowner/testrepo/issues/42',
+      });
+
+      const form = new FormData();
+      form.append('payload', JSON.stringify(validPayload));
+      form.append('attachment', new Blob(['x'.repeat(2048)], { type: 'text/plain' }), 'app.log');
+      form.append('attachment', new Blob(['{}'], { type: 'application/json' }), 'state.json');
+
+      const res = await app.fetch(new Request('http://localhost/feedback', { method: 'POST', body: form }), mockEnv);
+
+      expect(res.status).toBe(200);
+      expect(mockUploadAttachmentAsAsset).toHaveBeenCalledTimes(2);
+      expect(mockUploadAttachmentAsAsset.mock.calls[0][4]).toBe('bugdrop-assets');
+      const issueBody: string = mockCreateIssue.mock.calls[0][4];
+      expect(issueBody).toContain(`## Attachments\n- [app.log](${logUrl}) (2.0 KB)\n`);
+      expect(issueBody).not.toContain('state.json');
+    });
+
+    it('should show the original screenshot alone when the annotated upload fails', async () => {
+      vi.spyOn(console, 'error').mockImplementation(() => {});
+      mockGetInstallationToken.mockResolvedValue('test-token');
+      const originalUrl = 'https://raw.githubusercontent.com/testowner/testrepo/bugdrop-assets/.bugdrop/screenshots/1.png';
+      mockUploadScreenshotAsAsset
+        .mockResolvedValueOnce(originalUrl)
+        .mockRejectedValueOnce(new Error('409 Conflict'));
+      mockCreateIssue.mockResolvedValue({
+        number: 42,
+        html_url: 'https://github.com/testowner/testrepo/issues/42',
+      });
+
+      const req = new Request('http://localhost/feedback', {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({
+          ...validPayload,
+          screenshot: 'data:image/png;base64,AQ==',
+          annotations: 'data:image/png;base64,Ag==',
+        }),
+      });
+      await app.fetch(req, mockEnv);
+
+      const issueBody: string = mockCreateIssue.mock.calls[0][4];
+      expect(issueBody).toContain(`![Screenshot](${originalUrl})`);
+      expect(issueBody).not.toContain('<summary>Original screenshot</summary>');
+    });
+
+    it('should reject multipart body exceeding size limit with 413', async () => {
+      const form = new FormData();
+      form.append('payload', JSON.stringify(validPayload));
+      form.append('screenshot', new Blob([new Uint8Array(27 * 1024 * 1024)], { type: 'image/png' }), 'screenshot.png');
+
+      const req = new Request('http://localhost/feedback', {
+        method: 'POST',
+        body: form,
+      });
+      const res = await app.fetch(req, mockEnv);
+      const data = await res.json();
+
+      expect(res.status).toBe(413);
+      expect(data.error).toContain('Request too large');
+      expect(mockCreateIssue).not.toHaveBeenCalled();
     });
 
     it('should include CORS headers', async () => {
@@ -413,62 +818,102 @@ describe('API Routes', () => {
       expect(issueBody).toContain('Submitted via');
     });
 
-    it('should include submitter info in issue body when provided', async () => {
+    it('should file categories that only exist on Object.prototype as bugs', async () => {
       mockGetInstallationToken.mockResolvedValue('test-token');
       mockCreateIssue.mockResolvedValue({
         number: 42,
         html_url: 'https://github.com/testowner/testrepo/issues/42',
       });
 
-      const payloadWithSubmitter = {
-        ...validPayload,
-        submitter: {
-          name: 'John Doe',
-          email: 'john@example.com',
-        },
-      };
+      const res = await app.fetch(new Request('http://localhost/feedback', {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({ ...validPayload, category: 'constructor' }),
+      }), mockEnv);
+
+      expect(res.status).toBe(200);
+      expect(mockCreateIssue.mock.calls[0][5]).toEqual(['bug', 'bugdrop']);
+    });
+
+    it('should apply labels, assignees and title prefix from repo config', async () => {
+      mockGetInstallationToken.mockResolvedValue('test-token');
+      mockGetRepoConfig.mockResolvedValue({
+        ...defaultRepoConfig,
+        categoryLabels: { ...defaultRepoConfig.categoryLabels, feature: 'feature-request' },
+        labels: ['triage', 'bugdrop'],
+        assignees: ['octocat'],
+        titlePrefix: '[Feedback] ',
+      });
+      mockCreateIssue.mockResolvedValue({
+        number: 42,
+        html_url: 'https://github.com/testowner/testrepo/issues/42',
+      });
 
       const req = new Request('http://localhost/feedback', {
         method: 'POST',
         headers: { 'Content-Type': 'application/json' },
-        body: JSON.stringify(payloadWithSubmitter),
+        body: JSON.stringify({ ...validPayload, category: 'feature' }),
       });
-      await app.fetch(req, mockEnv);
+      const res = await app.fetch(req, mockEnv);
 
-      const issueBody = mockCreateIssue.mock.calls[0][4];
-      expect(issueBody).toContain('## Submitted by');
-      expect(issueBody).toContain('**John Doe**');
-      expect(issueBody).toContain('(john@example.com)');
+      expect(res.status).toBe(200);
+      expect(mockGetRepoConfig).toHaveBeenCalledWith('test-token', 'testowner', 'testrepo');
+      expect(mockCreateIssue).toHaveBeenCalledWith(
+        'test-token',
+        'testowner',
+        'testrepo',
+        '[Feedback] Test feedback',
+        expect.any(String),
+        ['feature-request', 'bugdrop', 'triage'],
+        ['octocat']
+      );
     });
 
-    it('should handle submitter with only name', async () => {
+    it('should add tags from the page as labels only when the repo allows them', async () => {
       mockGetInstallationToken.mockResolvedValue('test-token');
+      mockGetRepoConfig.mockResolvedValue({ ...defaultRepoConfig, allowedTags: ['Enterprise', 'beta'] });
       mockCreateIssue.mockResolvedValue({
         number: 42,
         html_url: 'https://github.com/testowner/testrepo/issues/42',
       });
 
-      const payloadWithName = {
-        ...validPayload,
-        submitter: { name: 'Jane Doe' },
-      };
+      const res = await app.fetch(new Request('http://localhost/feedback', {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({ ...validPayload, tags: ['enterprise', 'wontfix', 'priority: high'] }),
+      }), mockEnv);
+
+      expect(res.status).toBe(200);
+      expect(mockCreateIssue.mock.calls[0][5]).toEqual(['bug', 'bugdrop', 'Enterprise']);
+    });
+
+    it('should reject origins not allowed by repo config', async () => {
+      mockGetInstallationToken.mockResolvedValue('test-token');
+      mockGetRepoConfig.mockResolvedValue({
+        ...defaultRepoConfig,
+        allowedOrigins: ['https://app.example.com'],
+      });
 
       const req = new Request('http://localhost/feedback', {
         method: 'POST',
-        headers: { 'Content-Type': 'application/json' },
-        body: JSON.stringify(payloadWithName),
+        headers: { 'Content-Type': 'application/json', Origin: 'https://evil.example.com' },
+        body: JSON.stringify(validPayload),
       });
-      await app.fetch(req, mockEnv);
+      const res = await app.fetch(req, mockEnv);
+      const data = await res.json();
 
-      const issueBody = mockCreateIssue.mock.calls[0][4];
-      expect(issueBody).toContain('## Submitted by');
-      expect(issueBody).toContain('**Jane Doe**');
-      // Should not contain email format (email in parentheses after name)
-      expect(issueBody).not.toMatch(/\*\*Jane Doe\*\*.*\(/);
+      expect(res.status).toBe(403);
+      expect(data.error).toContain('not allowed');
+      expect(data.code).toBe('ORIGIN_NOT_ALLOWED');
+      expect(mockCreateIssue).not.toHaveBeenCalled();
     });
 
-    it('should not include submitter section when not provided', async () => {
+    it('should accept origins matching a wildcard subdomain pattern', async () => {
       mockGetInstallationToken.mockResolvedValue('test-token');
+      mockGetRepoConfig.mockResolvedValue({
+        ...defaultRepoConfig,
+        allowedOrigins: ['https://*.preview.example.com'],
+      });
       mockCreateIssue.mockResolvedValue({
         number: 42,
         html_url: 'https://github.com/testowner/testrepo/issues/42',
@@ -476,37 +921,1003 @@ describe('API Routes', () => {
 
       const req = new Request('http://localhost/feedback', {
         method: 'POST',
-        headers: { 'Content-Type': 'application/json' },
+        headers: { 'Content-Type': 'application/json', Origin: 'https://pr-12.preview.example.com' },
         body: JSON.stringify(validPayload),
       });
-      await app.fetch(req, mockEnv);
+      const res = await app.fetch(req, { ...mockEnv, ALLOWED_ORIGINS: 'https://example.com' });
 
-      const issueBody = mockCreateIssue.mock.calls[0][4];
-      expect(issueBody).not.toContain('## Submitted by');
+      expect(res.status).toBe(200);
+      expect(res.headers.get('access-control-allow-origin')).toBe('https://pr-12.preview.example.com');
     });
-  });
 
-  describe('OPTIONS preflight requests', () => {
-    it('should handle CORS preflight for /health', async () => {
-      const req = new Request('http://localhost/health', {
-        method: 'OPTIONS',
+    it('should prefer the KV origin registry over repo config', async () => {
+      const kv = { get: vi.fn().mockResolvedValue(['https://registered.example.com']) };
+      mockGetInstallationToken.mockResolvedValue('test-token');
+      mockGetRepoConfig.mockResolvedValue({
+        ...defaultRepoConfig,
+        allowedOrigins: ['https://app.example.com'],
       });
-      const res = await app.fetch(req, mockEnv);
 
-      expect(res.status).toBe(204);
-      expect(res.headers.get('access-control-allow-origin')).toBe('*');
-      expect(res.headers.get('access-control-allow-methods')).toContain('GET');
+      const req = new Request('http://localhost/feedback', {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json', Origin: 'https://app.example.com' },
+        body: JSON.stringify(validPayload),
+      });
+      const res = await app.fetch(req, { ...mockEnv, STATE: kv as unknown as KVNamespace });
+
+      expect(res.status).toBe(403);
+      expect(kv.get).toHaveBeenCalledWith('origins:testowner/testrepo', 'json');
     });
 
-    it('should handle CORS preflight for /feedback', async () => {
+    it('should fall back to ALLOWED_ORIGINS when the repo has no allowlist', async () => {
+      mockGetInstallationToken.mockResolvedValue('test-token');
+
       const req = new Request('http://localhost/feedback', {
-        method: 'OPTIONS',
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json', Origin: 'https://other.example.com' },
+        body: JSON.stringify(validPayload),
       });
-      const res = await app.fetch(req, mockEnv);
+      const res = await app.fetch(req, { ...mockEnv, ALLOWED_ORIGINS: 'https://example.com' });
+      const data = await res.json();
 
-      expect(res.status).toBe(204);
-      expect(res.headers.get('access-control-allow-origin')).toBe('*');
-      expect(res.headers.get('access-control-allow-methods')).toContain('POST');
+      expect(res.status).toBe(403);
+      expect(data.code).toBe('ORIGIN_NOT_ALLOWED');
+    });
+
+    it('should enforce a lower screenshot limit from repo config', async () => {
+      mockGetInstallationToken.mockResolvedValue('test-token');
+      mockGetRepoConfig.mockResolvedValue({
+        ...defaultRepoConfig,
+        maxScreenshotSizeMB: 1,
+      });
+
+      const req = new Request('http://localhost/feedback', {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({
+          ...validPayload,
+          screenshot: 'data:image/png;base64,' + 'A'.repeat(2 * 1024 * 1024),
+        }),
+      });
+      const res = await app.fetch(req, mockEnv);
+      const data = await res.json();
+
+      expect(res.status).toBe(400);
+      expect(data.error).toContain('exceeds 1MB limit');
+      expect(mockUploadScreenshotAsAsset).not.toHaveBeenCalled();
+    });
+
+    it('should render the repo issue template when one exists', async () => {
+      mockGetInstallationToken.mockResolvedValue('test-token');
+      mockGetIssueTemplate.mockResolvedValue(
+        '### Report\n{{description}}\n{{#if elementSelector}}Element: {{elementSelector}}{{else}}No element{{/if}}\nPage: {{metadata.url}}'
+      );
+      mockCreateIssue.mockResolvedValue({
+        number: 42,
+        html_url: 'https://github.com/testowner/testrepo/issues/42',
+      });
+
+      const req = new Request('http://localhost/feedback', {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({ ...validPayload, category: 'question' }),
+      });
+      await app.fetch(req, mockEnv);
+
+      expect(mockGetIssueTemplate).toHaveBeenCalledWith('test-token', 'testowner', 'testrepo', 'question');
+      const issueBody = mockCreateIssue.mock.calls[0][4];
+      expect(issueBody.startsWith('### Report\nThis is a test feedback\nNo element\nPage: http://localhost:3000\n')).toBe(true);
+    });
+
+    it('should comment on a matching open issue instead of creating a duplicate', async () => {
+      mockGetInstallationToken.mockResolvedValue('test-token');
+      mockCreateIssue.mockResolvedValue({
+        number: 42,
+        html_url: 'https://github.com/testowner/testrepo/issues/42',
+      });
+
+      const submit = () => app.fetch(new Request('http://localhost/feedback', {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify(validPayload),
+      }), mockEnv);
+
+      // First report opens an issue carrying a fingerprint marker
+      await submit();
+      const originalBody = mockCreateIssue.mock.calls[0][4];
+      expect(originalBody).toMatch(/<!-- bugdrop:fingerprint=[0-9a-f]+ -->/);
+
+      // Same report again (title differs only in case/punctuation) matches it
+      mockListOpenIssues.mockResolvedValue([
+        { number: 42, html_url: 'https://github.com/testowner/testrepo/issues/42', body: originalBody },
+      ]);
+      const res = await app.fetch(new Request('http://localhost/feedback', {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({ ...validPayload, title: 'test FEEDBACK!', description: 'Happened again' }),
+      }), mockEnv);
+      const data = await res.json();
+
+      expect(res.status).toBe(200);
+      expect(data).toMatchObject({ success: true, issueNumber: 42, duplicateOf: 42 });
+      expect(mockCreateIssue).toHaveBeenCalledTimes(1);
+      expect(mockListOpenIssues).toHaveBeenCalledWith('test-token', 'testowner', 'testrepo', 'bugdrop');
+      expect(mockAddIssueComment).toHaveBeenCalledWith(
+        'test-token',
+        'testowner',
+        'testrepo',
+        42,
+        expect.stringContaining('Happened again')
+      );
+    });
+
+    it('should create a new issue when commenting on the duplicate fails', async () => {
+      mockGetInstallationToken.mockResolvedValue('test-token');
+      mockCreateIssue.mockResolvedValue({
+        number: 43,
+        html_url: 'https://github.com/testowner/testrepo/issues/43',
+      });
+      mockListOpenIssues.mockResolvedValue([]);
+      await app.fetch(new Request('http://localhost/feedback', {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify(validPayload),
+      }), mockEnv);
+      const originalBody = mockCreateIssue.mock.calls[0][4];
+
+      // The matching issue was locked after it was found
+      mockListOpenIssues.mockResolvedValue([
+        { number: 42, html_url: 'https://github.com/testowner/testrepo/issues/42', body: originalBody },
+      ]);
+      mockAddIssueComment.mockRejectedValueOnce(new Error('Issue is locked'));
+      const res = await app.fetch(new Request('http://localhost/feedback', {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify(validPayload),
+      }), mockEnv);
+      const data = await res.json();
+
+      expect(res.status).toBe(200);
+      expect(data).toMatchObject({ success: true, issueNumber: 43 });
+      expect(data.duplicateOf).toBeUndefined();
+      expect(mockCreateIssue).toHaveBeenCalledTimes(2);
+    });
+
+    it('should create a new issue when duplicate detection is disabled', async () => {
+      mockGetInstallationToken.mockResolvedValue('test-token');
+      mockGetRepoConfig.mockResolvedValue({ ...defaultRepoConfig, detectDuplicates: false });
+      mockCreateIssue.mockResolvedValue({
+        number: 43,
+        html_url: 'https://github.com/testowner/testrepo/issues/43',
+      });
+
+      const req = new Request('http://localhost/feedback', {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify(validPayload),
+      });
+      const res = await app.fetch(req, mockEnv);
+      const data = await res.json();
+
+      expect(data.duplicateOf).toBeUndefined();
+      expect(mockListOpenIssues).not.toHaveBeenCalled();
+      expect(mockCreateIssue).toHaveBeenCalled();
+    });
+
+    it('should still create the issue when the duplicate search fails', async () => {
+      mockGetInstallationToken.mockResolvedValue('test-token');
+      mockListOpenIssues.mockRejectedValue(new Error('GitHub API error'));
+      mockCreateIssue.mockResolvedValue({
+        number: 44,
+        html_url: 'https://github.com/testowner/testrepo/issues/44',
+      });
+
+      const req = new Request('http://localhost/feedback', {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify(validPayload),
+      });
+      const res = await app.fetch(req, mockEnv);
+
+      expect(res.status).toBe(200);
+      expect(mockCreateIssue).toHaveBeenCalled();
+    });
+
+    it('should notify the repo webhooks about new issues', async () => {
+      const notifications = [{ url: 'https://hooks.slack.com/services/T/B/X', format: 'slack' }];
+      mockGetInstallationToken.mockResolvedValue('test-token');
+      mockGetRepoConfig.mockResolvedValue({ ...defaultRepoConfig, titlePrefix: '[Feedback] ', notifications });
+      mockNotifySubmission.mockResolvedValue(undefined);
+      mockCreateIssue.mockResolvedValue({
+        number: 45,
+        html_url: 'https://github.com/testowner/testrepo/issues/45',
+      });
+
+      const req = new Request('http://localhost/feedback', {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({ ...validPayload, submitter: { name: 'Jordan' } }),
+      });
+      const res = await app.fetch(req, mockEnv);
+
+      expect(res.status).toBe(200);
+      expect(mockNotifySubmission).toHaveBeenCalledWith(mockEnv, notifications, {
+        repo: 'testowner/testrepo',
+        issueNumber: 45,
+        issueUrl: 'https://github.com/testowner/testrepo/issues/45',
+        title: '[Feedback] Test feedback',
+        category: 'bug',
+        pageUrl: 'http://localhost:3000',
+        screenshotUrl: undefined,
+        submitterName: 'Jordan',
+      });
+    });
+
+    it('should not notify when the repo has no notification webhooks', async () => {
+      mockGetInstallationToken.mockResolvedValue('test-token');
+      mockCreateIssue.mockResolvedValue({
+        number: 46,
+        html_url: 'https://github.com/testowner/testrepo/issues/46',
+      });
+
+      const req = new Request('http://localhost/feedback', {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify(validPayload),
+      });
+      await app.fetch(req, mockEnv);
+
+      expect(mockNotifySubmission).not.toHaveBeenCalled();
+    });
+
+    it('should reject submissions that fill in the honeypot field', async () => {
+      mockGetInstallationToken.mockResolvedValue('test-token');
+      vi.spyOn(console, 'warn').mockImplementation(() => {});
+
+      const req = new Request('http://localhost/feedback', {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({ ...validPayload, honeypot: 'https://spam.example.com' }),
+      });
+      const res = await app.fetch(req, mockEnv);
+      const data = await res.json();
+
+      expect(res.status).toBe(403);
+      expect(data.code).toBe('SPAM_REJECTED');
+      expect(Object.keys(data.spam)).toEqual(['score', 'action']);
+      expect(data.spam.action).toBe('reject');
+      expect(console.warn).toHaveBeenCalledWith(expect.stringContaining('honeypot field filled'));
+      expect(mockCreateIssue).not.toHaveBeenCalled();
+    });
+
+    it('should label likely spam bugdrop-spam and skip notifications', async () => {
+      const notifications = [{ url: 'https://example.com/hook', format: 'generic' }];
+      vi.spyOn(console, 'warn').mockImplementation(() => {});
+      mockGetInstallationToken.mockResolvedValue('test-token');
+      mockGetRepoConfig.mockResolvedValue({
+        ...defaultRepoConfig,
+        notifications,
+        spam: { ...defaultRepoConfig.spam, bannedWords: ['casino'] },
+      });
+      mockCreateIssue.mockResolvedValue({
+        number: 47,
+        html_url: 'https://github.com/testowner/testrepo/issues/47',
+      });
+
+      const req = new Request('http://localhost/feedback', {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({ ...validPayload, title: 'Best online casino bonus' }),
+      });
+      const res = await app.fetch(req, mockEnv);
+      const data = await res.json();
+
+      expect(res.status).toBe(200);
+      // The matched word stays private to the repo
+      expect(Object.keys(data.spam)).toEqual(['score', 'action']);
+      expect(data.spam.action).toBe('label');
+      expect(JSON.stringify(data)).not.toContain('casino"');
+      expect(console.warn).toHaveBeenCalledWith(expect.stringContaining('banned word "casino"'));
+      expect(mockCreateIssue).toHaveBeenCalledWith(
+        'test-token',
+        'testowner',
+        'testrepo',
+        'Best online casino bonus',
+        expect.any(String),
+        ['bug', 'bugdrop-spam'],
+        []
+      );
+      expect(mockListOpenIssues).not.toHaveBeenCalled();
+      expect(mockNotifySubmission).not.toHaveBeenCalled();
+    });
+
+    it('should include submitter info in issue body when provided', async () => {
+      mockGetInstallationToken.mockResolvedValue('test-token');
+      mockCreateIssue.mockResolvedValue({
+        number: 42,
+        html_url: 'https://github.com/testowner/testrepo/issues/42',
+      });
+
+      const payloadWithSubmitter = {
+        ...validPayload,
+        submitter: {
+          name: 'John Doe',
+          email: 'john@example.com',
+        },
+      };
+
+      const req = new Request('http://localhost/feedback', {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify(payloadWithSubmitter),
+      });
+      await app.fetch(req, mockEnv);
+
+      const issueBody = mockCreateIssue.mock.calls[0][4];
+      expect(issueBody).toContain('## Submitted by');
+      expect(issueBody).toContain('**John Doe**');
+      expect(issueBody).toContain('(john@example.com)');
+      expect(issueBody).toContain('_(self-reported)_');
+    });
+
+    it('should redact personal data before creating the issue', async () => {
+      mockGetInstallationToken.mockResolvedValue('test-token');
+      mockGetRepoConfig.mockResolvedValue({
+        ...defaultRepoConfig,
+        redaction: { enabled: true, patterns: ['ACME-\\d+'] },
+      });
+      mockCreateIssue.mockResolvedValue({
+        number: 48,
+        html_url: 'https://github.com/testowner/testrepo/issues/48',
+      });
+
+      const req = new Request('http://localhost/feedback', {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({
+          ...validPayload,
+          title: 'Checkout fails for jane@example.com',
+          description: 'Card 4242 4242 4242 4242 declined on order ACME-1234',
+          submitter: { email: 'john@example.com' },
+        }),
+      });
+      await app.fetch(req, mockEnv);
+
+      const [, , , title, issueBody] = mockCreateIssue.mock.calls[0];
+      expect(title).toBe('Checkout fails for [REDACTED EMAIL]');
+      expect(issueBody).toContain('Card [REDACTED CARD] declined on order [REDACTED]');
+      expect(issueBody).toContain('(john@example.com)');
+      expect(issueBody).toContain('3 items were redacted');
+    });
+
+    it('should leave submissions alone when redaction is disabled', async () => {
+      mockGetInstallationToken.mockResolvedValue('test-token');
+      mockGetRepoConfig.mockResolvedValue({
+        ...defaultRepoConfig,
+        redaction: { enabled: false, patterns: [] },
+      });
+      mockCreateIssue.mockResolvedValue({
+        number: 49,
+        html_url: 'https://github.com/testowner/testrepo/issues/49',
+      });
+
+      const req = new Request('http://localhost/feedback', {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({ ...validPayload, description: 'Contact jane@example.com' }),
+      });
+      await app.fetch(req, mockEnv);
+
+      const issueBody = mockCreateIssue.mock.calls[0][4];
+      expect(issueBody).toContain('Contact jane@example.com');
+      expect(issueBody).not.toContain('redacted');
+    });
+
+    it('should reject null captured entries with a 400 when redaction is disabled', async () => {
+      mockGetInstallationToken.mockResolvedValue('test-token');
+      mockGetRepoConfig.mockResolvedValue({
+        ...defaultRepoConfig,
+        redaction: { enabled: false, patterns: [] },
+      });
+      const submit = (payload: object) => app.fetch(new Request('http://localhost/feedback', {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({ ...validPayload, ...payload }),
+      }), mockEnv);
+
+      for (const [payload, field] of [
+        [{ consoleLogs: [null] }, 'consoleLogs'],
+        [{ breadcrumbs: [null] }, 'breadcrumbs'],
+        [{ metadata: { ...validPayload.metadata, network: [null] } }, 'metadata.network'],
+        [{ metadata: { ...validPayload.metadata, errors: [null] } }, 'metadata.errors'],
+      ] as const) {
+        const res = await submit(payload);
+
+        expect(res.status).toBe(400);
+        expect((await res.json()).error).toBe(`${field} must be an array of objects`);
+      }
+      expect(mockCreateIssue).not.toHaveBeenCalled();
+    });
+
+    it('should show the verified identity from a valid user token', async () => {
+      const { signToken } = await import('../src/lib/jwt');
+      const userToken = await signToken({
+        sub: 'user-123',
+        name: 'Verified User',
+        email: 'verified@corp.com',
+        aud: 'bugdrop',
+        iat: Math.floor(Date.now() / 1000),
+        exp: Math.floor(Date.now() / 1000) + 300,
+      }, 'host-shared-secret');
+      const kv = {
+        get: vi.fn(async (key: string) =>
+          key === 'identity-secret:testowner/testrepo' ? 'host-shared-secret' : null
+        ),
+      };
+      mockGetInstallationToken.mockResolvedValue('test-token');
+      mockCreateIssue.mockResolvedValue({
+        number: 42,
+        html_url: 'https://github.com/testowner/testrepo/issues/42',
+      });
+
+      const req = new Request('http://localhost/feedback', {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({
+          ...validPayload,
+          submitter: { name: 'CEO', email: 'ceo@corp.com' },
+          userToken,
+        }),
+      });
+      await app.fetch(req, { ...mockEnv, STATE: kv as unknown as KVNamespace });
+
+      const issueBody = mockCreateIssue.mock.calls[0][4];
+      expect(issueBody).toContain('**Verified User** (verified@corp.com) ✅ Verified (user `user-123`)');
+      expect(issueBody).not.toContain('ceo@corp.com');
+    });
+
+    it('should treat the submitter as self-reported when the user token is invalid', async () => {
+      mockGetInstallationToken.mockResolvedValue('test-token');
+      mockCreateIssue.mockResolvedValue({
+        number: 42,
+        html_url: 'https://github.com/testowner/testrepo/issues/42',
+      });
+      vi.spyOn(console, 'warn').mockImplementation(() => {});
+
+      const req = new Request('http://localhost/feedback', {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({
+          ...validPayload,
+          submitter: { name: 'CEO' },
+          userToken: 'forged.token.value',
+        }),
+      });
+      const res = await app.fetch(req, mockEnv);
+
+      expect(res.status).toBe(200);
+      const issueBody = mockCreateIssue.mock.calls[0][4];
+      expect(issueBody).toContain('**CEO** _(self-reported)_');
+      expect(issueBody).not.toContain('Verified');
+    });
+
+    it('should handle submitter with only name', async () => {
+      mockGetInstallationToken.mockResolvedValue('test-token');
+      mockCreateIssue.mockResolvedValue({
+        number: 42,
+        html_url: 'https://github.com/testowner/testrepo/issues/42',
+      });
+
+      const payloadWithName = {
+        ...validPayload,
+        submitter: { name: 'Jane Doe' },
+      };
+
+      const req = new Request('http://localhost/feedback', {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify(payloadWithName),
+      });
+      await app.fetch(req, mockEnv);
+
+      const issueBody = mockCreateIssue.mock.calls[0][4];
+      expect(issueBody).toContain('## Submitted by');
+      expect(issueBody).toContain('**Jane Doe**');
+      // Should not contain email format (email in parentheses after name)
+      expect(issueBody).not.toMatch(/\*\*Jane Doe\*\* \(/);
+    });
+
+    it('should not include submitter section when not provided', async () => {
+      mockGetInstallationToken.mockResolvedValue('test-token');
+      mockCreateIssue.mockResolvedValue({
+        number: 42,
+        html_url: 'https://github.com/testowner/testrepo/issues/42',
+      });
+
+      const req = new Request('http://localhost/feedback', {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify(validPayload),
+      });
+      await app.fetch(req, mockEnv);
+
+      const issueBody = mockCreateIssue.mock.calls[0][4];
+      expect(issueBody).not.toContain('## Submitted by');
+    });
+  });
+
+  describe('proof of work', () => {
+    const signedEnv: Env = { ...mockEnv, SIGNING_SECRET: 'test-signing-secret' };
+    const powConfig = { ...defaultRepoConfig, challengeDifficulty: 4 };
+    const payload: FeedbackPayload = {
+      repo: 'testowner/testrepo',
+      title: 'Test feedback',
+      description: 'This is a test feedback',
+      metadata: {
+        url: 'http://localhost:3000',
+        userAgent: 'Mozilla/5.0',
+        viewport: { width: 1920, height: 1080 },
+        timestamp: '2025-01-15T12:00:00Z',
+      },
+    };
+
+    async function solve(challenge: string, difficulty: number): Promise<string> {
+      for (let nonce = 0; ; nonce++) {
+        const hash = new Uint8Array(await crypto.subtle.digest(
+          'SHA-256',
+          new TextEncoder().encode(`${challenge}:${nonce}`)
+        ));
+        const bits = Array.from(hash, (b) => b.toString(2).padStart(8, '0')).join('');
+        if (bits.startsWith('0'.repeat(difficulty))) return String(nonce);
+      }
+    }
+
+    function submit(body: FeedbackPayload, env = signedEnv) {
+      return app.fetch(new Request('http://localhost/feedback', {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify(body),
+      }), env);
+    }
+
+    beforeEach(() => {
+      mockGetInstallationToken.mockResolvedValue('test-token');
+      mockGetRepoConfig.mockResolvedValue(powConfig);
+      mockCreateIssue.mockResolvedValue({
+        number: 42,
+        html_url: 'https://github.com/testowner/testrepo/issues/42',
+      });
+    });
+
+    it('should issue a signed challenge at the repo difficulty', async () => {
+      const res = await app.fetch(new Request('http://localhost/challenge?repo=testowner/testrepo'), signedEnv);
+      const data = await res.json();
+
+      expect(res.status).toBe(200);
+      expect(data).toMatchObject({ required: true, difficulty: 4 });
+      expect(data.challenge).toMatch(/^[\w-]+\.[\w-]+\.[\w-]+$/);
+      expect(data.expiresAt).toBeDefined();
+    });
+
+    it('should raise the difficulty when the repo is near its rate limit', async () => {
+      // 45 of the repo's 50 submissions used this window
+      const kv = {
+        get: vi.fn(async (key: string) => (key.startsWith('repo:') ? '45' : null)),
+        put: vi.fn(),
+      };
+
+      const res = await app.fetch(
+        new Request('http://localhost/challenge?repo=testowner/testrepo'),
+        { ...signedEnv, RATE_LIMIT: kv as unknown as KVNamespace }
+      );
+
+      expect((await res.json()).difficulty).toBe(8);
+    });
+
+    it('should not require a challenge when the repo turns it off', async () => {
+      mockGetRepoConfig.mockResolvedValue(defaultRepoConfig);
+
+      const res = await app.fetch(new Request('http://localhost/challenge?repo=testowner/testrepo'), signedEnv);
+
+      expect(await res.json()).toEqual({ required: false });
+      expect((await submit(payload)).status).toBe(200);
+    });
+
+    it('should reject submissions without a solved challenge', async () => {
+      const res = await submit(payload);
+      const data = await res.json();
+
+      expect(res.status).toBe(403);
+      expect(data.code).toBe('CHALLENGE_REQUIRED');
+      expect(mockCreateIssue).not.toHaveBeenCalled();
+    });
+
+    it('should accept a solved challenge only once', async () => {
+      const { challenge } = await (await app.fetch(
+        new Request('http://localhost/challenge?repo=testowner/testrepo'),
+        signedEnv
+      )).json();
+      const proofOfWork = { challenge, solution: await solve(challenge, 4) };
+
+      expect((await submit({ ...payload, proofOfWork })).status).toBe(200);
+
+      const replay = await submit({ ...payload, proofOfWork });
+      expect(replay.status).toBe(403);
+      expect((await replay.json()).code).toBe('CHALLENGE_INVALID');
+    });
+
+    it('should not require a challenge from verified submitters', async () => {
+      const { signToken } = await import('../src/lib/jwt');
+      const userToken = await signToken(
+        { sub: 'user-1', aud: 'bugdrop', iat: Math.floor(Date.now() / 1000), exp: Math.floor(Date.now() / 1000) + 300 },
+        'host-secret'
+      );
+      const kv = { get: vi.fn().mockResolvedValue('host-secret') };
+
+      const res = await submit(
+        { ...payload, userToken },
+        { ...signedEnv, STATE: kv as unknown as KVNamespace }
+      );
+
+      expect(res.status).toBe(200);
+    });
+  });
+
+  describe('GET /screenshots/:id', () => {
+    const id = 'a'.repeat(32);
+
+    it('should serve screenshots stored in KV', async () => {
+      const state = {
+        getWithMetadata: vi.fn().mockResolvedValue({
+          value: new Uint8Array([1, 2, 3]).buffer,
+          metadata: { contentType: 'image/webp' },
+        }),
+      };
+      const env = { ...mockEnv, STATE: state as unknown as KVNamespace };
+
+      const res = await app.fetch(new Request(`http://localhost/screenshots/${id}`), env);
+
+      expect(res.status).toBe(200);
+      expect(res.headers.get('Content-Type')).toBe('image/webp');
+      expect(res.headers.get('Cache-Control')).toContain('immutable');
+      expect(new Uint8Array(await res.arrayBuffer())).toEqual(new Uint8Array([1, 2, 3]));
+      expect(state.getWithMetadata).toHaveBeenCalledWith(`screenshot:${id}`, 'arrayBuffer');
+    });
+
+    it('should return 404 for unknown screenshots', async () => {
+      const res = await app.fetch(new Request(`http://localhost/screenshots/${id}`), mockEnv);
+
+      expect(res.status).toBe(404);
+    });
+  });
+
+  describe('GET /attachments/:id', () => {
+    const id = 'b'.repeat(32);
+
+    it('should serve attachments stored in KV as downloads', async () => {
+      const state = {
+        getWithMetadata: vi.fn().mockResolvedValue({
+          value: new TextEncoder().encode('<script>').buffer,
+          metadata: { contentType: 'text/plain', filename: 'page.txt' },
+        }),
+      };
+      const env = { ...mockEnv, STATE: state as unknown as KVNamespace };
+
+      const res = await app.fetch(new Request(`http://localhost/attachments/${id}`), env);
+
+      expect(res.status).toBe(200);
+      expect(res.headers.get('Content-Type')).toBe('text/plain');
+      expect(res.headers.get('Content-Disposition')).toBe('attachment; filename="page.txt"');
+      expect(res.headers.get('X-Content-Type-Options')).toBe('nosniff');
+      expect(await res.text()).toBe('<script>');
+      expect(state.getWithMetadata).toHaveBeenCalledWith(`attachment:${id}`, 'arrayBuffer');
+    });
+
+    it('should return 404 for unknown attachments', async () => {
+      const res = await app.fetch(new Request(`http://localhost/attachments/${id}`), mockEnv);
+
+      expect(res.status).toBe(404);
+    });
+  });
+
+  describe('GET /snapshots/:id', () => {
+    const id = 'c'.repeat(32);
+    const html = '<!DOCTYPE html>\n<html><body><p>Snapshot</p></body></html>';
+
+    async function envWithSnapshot(filename = 'dom-snapshot.html.gz'): Promise<Env> {
+      const gzip = await new Response(
+        new Blob([html]).stream().pipeThrough(new CompressionStream('gzip'))
+      ).arrayBuffer();
+      const state = {
+        getWithMetadata: vi.fn().mockResolvedValue({
+          value: gzip,
+          metadata: { contentType: 'application/gzip', filename },
+        }),
+      };
+      return { ...mockEnv, STATE: state as unknown as KVNamespace };
+    }
+
+    it('should render a viewer with the snapshot in a sandboxed iframe', async () => {
+      const res = await app.fetch(new Request(`http://localhost/snapshots/${id}`), await envWithSnapshot());
+      const page = await res.text();
+
+      expect(res.status).toBe(200);
+      expect(res.headers.get('Content-Type')).toContain('text/html');
+      expect(page).toContain(`<iframe sandbox src="/snapshots/${id}/frame"`);
+    });
+
+    it('should serve the decompressed snapshot under a CSP sandbox', async () => {
+      const res = await app.fetch(new Request(`http://localhost/snapshots/${id}/frame`), await envWithSnapshot());
+
+      expect(res.status).toBe(200);
+      expect(res.headers.get('Content-Security-Policy')).toMatch(/^sandbox; script-src 'none'/);
+      expect(await res.text()).toBe(html);
+    });
+
+    it('should not render other attachments', async () => {
+      const env = await envWithSnapshot('notes.txt');
+
+      expect((await app.fetch(new Request(`http://localhost/snapshots/${id}`), env)).status).toBe(404);
+      expect((await app.fetch(new Request(`http://localhost/snapshots/${id}/frame`), env)).status).toBe(404);
+    });
+  });
+
+  describe('GET /feedback/:owner/:repo/:number', () => {
+    const signedEnv: Env = { ...mockEnv, SIGNING_SECRET: 'test-signing-secret' };
+    const closedIssue = {
+      number: 42,
+      html_url: 'https://github.com/testowner/testrepo/issues/42',
+      title: 'Secret internal title',
+      body: 'Private details',
+      state: 'closed',
+      state_reason: 'completed',
+      labels: [{ name: 'bug' }, { name: 'bugdrop' }],
+      updated_at: '2025-01-16T12:00:00Z',
+      closed_at: '2025-01-16T12:00:00Z',
+    };
+
+    async function submitForReceipt(): Promise<{ receipt: string; statusUrl: string }> {
+      mockGetInstallationToken.mockResolvedValue('test-token');
+      mockCreateIssue.mockResolvedValue({
+        number: 42,
+        html_url: 'https://github.com/testowner/testrepo/issues/42',
+      });
+      const res = await app.fetch(new Request('http://localhost/feedback', {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({
+          repo: 'testowner/testrepo',
+          title: 'Test feedback',
+          description: 'This is a test feedback',
+          metadata: {
+            url: 'http://localhost:3000',
+            userAgent: 'Mozilla/5.0',
+            viewport: { width: 1920, height: 1080 },
+            timestamp: '2025-01-15T12:00:00Z',
+          },
+        }),
+      }), signedEnv);
+      return res.json();
+    }
+
+    it('should return a receipt and status URL when a signing secret is configured', async () => {
+      const { receipt, statusUrl } = await submitForReceipt();
+
+      expect(receipt).toMatch(/^[\w-]+\.[\w-]+\.[\w-]+$/);
+      expect(statusUrl).toBe('http://localhost/feedback/testowner/testrepo/42');
+    });
+
+    it('should return a safe status view for a valid receipt', async () => {
+      const { receipt } = await submitForReceipt();
+      mockGetIssue.mockResolvedValue(closedIssue);
+
+      const res = await app.fetch(new Request('http://localhost/feedback/testowner/testrepo/42', {
+        headers: { Authorization: `Bearer ${receipt}` },
+      }), signedEnv);
+      const data = await res.json();
+
+      expect(res.status).toBe(200);
+      expect(data).toEqual({
+        repo: 'testowner/testrepo',
+        issueNumber: 42,
+        state: 'closed',
+        stateReason: 'completed',
+        labels: ['bug', 'bugdrop'],
+        updatedAt: '2025-01-16T12:00:00Z',
+        closedAt: '2025-01-16T12:00:00Z',
+      });
+      expect(mockListIssueComments).not.toHaveBeenCalled();
+    });
+
+    it('should answer from the status recorded by the webhook without calling GitHub', async () => {
+      const { receipt } = await submitForReceipt();
+      const recorded = {
+        repo: 'testowner/testrepo',
+        issueNumber: 42,
+        state: 'closed',
+        stateReason: 'not_planned',
+        labels: ['bug', 'bugdrop'],
+        updatedAt: '2025-01-16T12:00:00Z',
+        closedAt: '2025-01-16T12:00:00Z',
+      };
+      const state = { get: vi.fn().mockResolvedValue(recorded) };
+
+      const res = await app.fetch(new Request('http://localhost/feedback/testowner/testrepo/42', {
+        headers: { Authorization: `Bearer ${receipt}` },
+      }), { ...signedEnv, STATE: state as unknown as KVNamespace });
+
+      expect(res.status).toBe(200);
+      expect(await res.json()).toEqual(recorded);
+      expect(state.get).toHaveBeenCalledWith('closed:testowner/testrepo#42', 'json');
+      expect(mockGetIssue).not.toHaveBeenCalled();
+    });
+
+    it('should include the last maintainer comment when the repo allows it', async () => {
+      const { receipt } = await submitForReceipt();
+      mockGetRepoConfig.mockResolvedValue({ ...defaultRepoConfig, showMaintainerComments: true });
+      mockGetIssue.mockResolvedValue(closedIssue);
+      mockListIssueComments.mockResolvedValue([
+        { body: 'Looking into it', created_at: '2025-01-15T13:00:00Z', author_association: 'MEMBER' },
+        { body: 'Fixed in v2', created_at: '2025-01-16T11:00:00Z', author_association: 'OWNER' },
+        { body: 'Me too!', created_at: '2025-01-16T11:30:00Z', author_association: 'NONE' },
+      ]);
+
+      const res = await app.fetch(new Request(
+        `http://localhost/feedback/testowner/testrepo/42?receipt=${receipt}`
+      ), signedEnv);
+      const data = await res.json();
+
+      expect(data.lastMaintainerComment).toEqual({
+        body: 'Fixed in v2',
+        createdAt: '2025-01-16T11:00:00Z',
+      });
+    });
+
+    it('should reject a receipt for a different issue', async () => {
+      const { receipt } = await submitForReceipt();
+
+      const res = await app.fetch(new Request('http://localhost/feedback/testowner/testrepo/43', {
+        headers: { Authorization: `Bearer ${receipt}` },
+      }), signedEnv);
+
+      expect(res.status).toBe(401);
+      expect(mockGetIssue).not.toHaveBeenCalled();
+    });
+
+    it('should reject requests without a receipt', async () => {
+      const res = await app.fetch(new Request('http://localhost/feedback/testowner/testrepo/42'), signedEnv);
+
+      expect(res.status).toBe(401);
+    });
+
+    it('should return 501 when no signing secret is configured', async () => {
+      const res = await app.fetch(new Request('http://localhost/feedback/testowner/testrepo/42'), mockEnv);
+
+      expect(res.status).toBe(501);
+    });
+  });
+
+  describe('OPTIONS preflight requests', () => {
+    it('should handle CORS preflight for /health', async () => {
+      const req = new Request('http://localhost/health', {
+        method: 'OPTIONS',
+      });
+      const res = await app.fetch(req, mockEnv);
+
+      expect(res.status).toBe(204);
+      expect(res.headers.get('access-control-allow-origin')).toBe('*');
+      expect(res.headers.get('access-control-allow-methods')).toContain('GET');
+    });
+
+    it('should handle CORS preflight for /feedback', async () => {
+      const req = new Request('http://localhost/feedback', {
+        method: 'OPTIONS',
+      });
+      const res = await app.fetch(req, mockEnv);
+
+      expect(res.status).toBe(204);
+      expect(res.headers.get('access-control-allow-origin')).toBe('*');
+      expect(res.headers.get('access-control-allow-methods')).toContain('POST');
+    });
+
+    it('should defer /feedback origin checks to the repo allowlist', async () => {
+      const env = { ...mockEnv, ALLOWED_ORIGINS: 'https://example.com' };
+      const preflight = (path: string) => app.fetch(new Request(`http://localhost${path}`, {
+        method: 'OPTIONS',
+        headers: { Origin: 'https://app.customer.com', 'Access-Control-Request-Method': 'POST' },
+      }), env);
+
+      expect((await preflight('/feedback')).headers.get('access-control-allow-origin'))
+        .toBe('https://app.customer.com');
+      expect((await preflight('/health')).headers.get('access-control-allow-origin')).toBeNull();
+    });
+
+    it('should let an origin allowed only by the repo run the whole widget flow', async () => {
+      const env = { ...mockEnv, ALLOWED_ORIGINS: 'https://example.com' };
+      mockGetInstallationToken.mockResolvedValue('test-token');
+      mockGetRepoConfig.mockResolvedValue({ ...defaultRepoConfig, allowedOrigins: ['https://app.customer.com'] });
+      mockCreateIssue.mockResolvedValue({
+        number: 42,
+        html_url: 'https://github.com/testowner/testrepo/issues/42',
+      });
+      const request = (path: string, origin: string, init: RequestInit = {}) => app.fetch(new Request(
+        `http://localhost${path}`,
+        { ...init, headers: { ...init.headers, Origin: origin } }
+      ), env);
+
+      const check = await request('/check/testowner/testrepo', 'https://app.customer.com');
+      expect(check.headers.get('access-control-allow-origin')).toBe('https://app.customer.com');
+      expect(await check.json()).toMatchObject({ installed: true });
+
+      const challenge = await request('/challenge?repo=testowner/testrepo', 'https://app.customer.com');
+      expect(challenge.headers.get('access-control-allow-origin')).toBe('https://app.customer.com');
+
+      const submission = await request('/feedback', 'https://app.customer.com', {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({
+          repo: 'testowner/testrepo',
+          title: 'Test feedback',
+          description: 'This is a test feedback',
+          metadata: {
+            url: 'https://app.customer.com/settings',
+            userAgent: 'Mozilla/5.0',
+            viewport: { width: 1920, height: 1080 },
+            timestamp: '2025-01-15T12:00:00Z',
+          },
+        }),
+      });
+      expect(submission.status).toBe(200);
+      expect(submission.headers.get('access-control-allow-origin')).toBe('https://app.customer.com');
+
+      // Origins neither list allows are still refused
+      const other = await request('/check/testowner/testrepo', 'https://evil.example.com');
+      expect(other.headers.get('access-control-allow-origin')).toBeNull();
+    });
+
+    it('should apply the repo allowlist to the check and challenge even when ALLOWED_ORIGINS allows the origin', async () => {
+      mockGetInstallationToken.mockResolvedValue('test-token');
+      mockGetRepoConfig.mockResolvedValue({ ...defaultRepoConfig, allowedOrigins: ['https://app.customer.com'] });
+      const request = (path: string) => app.fetch(new Request(`http://localhost${path}`, {
+        headers: { Origin: 'https://evil.example.com' },
+      }), mockEnv);
+
+      expect((await request('/check/testowner/testrepo')).headers.get('access-control-allow-origin')).toBeNull();
+      expect((await request('/challenge?repo=testowner/testrepo')).headers.get('access-control-allow-origin'))
+        .toBeNull();
+    });
+
+    it('should refuse origins while the repo config cannot be loaded', async () => {
+      mockGetInstallationToken.mockResolvedValue('test-token');
+      mockGetRepoConfig.mockRejectedValue(new Error('Failed to read .bugdrop.yml: 503'));
+      vi.spyOn(console, 'error').mockImplementation(() => {});
+      const request = (path: string, init: RequestInit = {}) => app.fetch(new Request(`http://localhost${path}`, {
+        ...init,
+        headers: { ...init.headers, Origin: 'https://app.customer.com' },
+      }), mockEnv);
+
+      expect((await request('/check/testowner/testrepo')).headers.get('access-control-allow-origin')).toBeNull();
+      expect((await request('/challenge?repo=testowner/testrepo')).headers.get('access-control-allow-origin'))
+        .toBeNull();
+
+      const submission = await request('/feedback', {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({
+          repo: 'testowner/testrepo',
+          title: 'Test feedback',
+          description: 'This is a test feedback',
+          metadata: {
+            url: 'https://app.customer.com/settings',
+            userAgent: 'Mozilla/5.0',
+            viewport: { width: 1920, height: 1080 },
+            timestamp: '2025-01-15T12:00:00Z',
+          },
+        }),
+      });
+      expect(submission.status).toBe(503);
+      expect((await submission.json()).code).toBe('CONFIG_UNAVAILABLE');
+      expect(mockCreateIssue).not.toHaveBeenCalled();
     });
   });
 });
@@ -0,0 +1,131 @@
+import { describe, it, expect, vi, beforeEach, afterEach } from 'vitest';
+
+describe('uploadScreenshotAsAsset', () => {
+  let uploadScreenshotAsAsset: typeof import('../src/lib/assetBranch').uploadScreenshotAsAsset;
+  let fetchMock: ReturnType<typeof vi.fn>;
+  const screenshot = 'data:image/png;base64,iVBORw0KGgo=';
+
+  function route(branchExists: boolean) {
+    return async (url: string, init?: RequestInit) => {
+      const method = init?.method || 'GET';
+      if (url.includes('/git/ref/heads/')) {
+        return branchExists ? Response.json({ object: { sha: 'abc' } }) : new Response('Not Found', { status: 404 });
+      }
+      if (url.endsWith('/git/trees')) return Response.json({ sha: 'tree-sha' }, { status: 201 });
+      if (url.endsWith('/git/commits')) return Response.json({ sha: 'commit-sha' }, { status: 201 });
+      if (url.endsWith('/git/refs')) return Response.json({}, { status: 201 });
+      if (method === 'PUT') {
+        const path = new URL(url).pathname.split('/contents/')[1];
+        return Response.json({ content: { path } }, { status: 201 });
+      }
+      return new Response('Unexpected request', { status: 500 });
+    };
+  }
+
+  beforeEach(async () => {
+    vi.resetModules();
+    ({ uploadScreenshotAsAsset } = await import('../src/lib/assetBranch'));
+    fetchMock = vi.fn(route(true));
+    vi.stubGlobal('fetch', fetchMock);
+  });
+
+  afterEach(() => {
+    vi.unstubAllGlobals();
+  });
+
+  it('commits to the screenshot branch and links through it', async () => {
+    const url = await uploadScreenshotAsAsset('token', 'owner', 'repo', screenshot, 'bugdrop-assets');
+
+    expect(url).toMatch(
+      /^https:\/\/raw\.githubusercontent\.com\/owner\/repo\/bugdrop-assets\/\.bugdrop\/screenshots\/\d+\.png$/
+    );
+    const [, put] = fetchMock.mock.calls.find(([, init]) => init?.method === 'PUT')!;
+    expect(JSON.parse(put.body)).toMatchObject({ branch: 'bugdrop-assets', content: 'iVBORw0KGgo=' });
+  });
+
+  it('creates the branch as an orphan when it is missing', async () => {
+    fetchMock.mockImplementation(route(false));
+
+    await uploadScreenshotAsAsset('token', 'owner', 'repo', screenshot, 'bugdrop-assets');
+
+    const body = (suffix: string) =>
+      JSON.parse(fetchMock.mock.calls.find(([url]) => url.endsWith(suffix))![1].body);
+    expect(body('/git/trees').base_tree).toBeUndefined();
+    expect(body('/git/commits')).toMatchObject({ tree: 'tree-sha', parents: [] });
+    expect(body('/git/refs')).toEqual({ ref: 'refs/heads/bugdrop-assets', sha: 'commit-sha' });
+  });
+
+  it('only checks for the branch once per isolate', async () => {
+    await uploadScreenshotAsAsset('token', 'owner', 'repo', screenshot, 'bugdrop-assets');
+    await uploadScreenshotAsAsset('token', 'owner', 'repo', screenshot, 'bugdrop-assets');
+
+    expect(fetchMock.mock.calls.filter(([url]) => url.includes('/git/ref/heads/'))).toHaveLength(1);
+  });
+
+  it('commits attachments to the same branch under their own name', async () => {
+    const { uploadAttachmentAsAsset } = await import('../src/lib/assetBranch');
+    const file = new File(['line 1'], 'app.log', { type: 'text/plain' });
+
+    const url = await uploadAttachmentAsAsset('token', 'owner', 'repo', file, 'bugdrop-assets');
+
+    expect(url).toMatch(
+      /^https:\/\/raw\.githubusercontent\.com\/owner\/repo\/bugdrop-assets\/\.bugdrop\/attachments\/\d+-app\.log$/
+    );
+    const [, put] = fetchMock.mock.calls.find(([, init]) => init?.method === 'PUT')!;
+    expect(JSON.parse(put.body)).toMatchObject({ branch: 'bugdrop-assets', content: btoa('line 1') });
+  });
+
+  it('tolerates the branch being created concurrently', async () => {
+    fetchMock.mockImplementation(async (url: string, init?: RequestInit) =>
+      url.endsWith('/git/refs')
+        ? new Response('Reference already exists', { status: 422 })
+        : route(false)(url, init)
+    );
+
+    await expect(uploadScreenshotAsAsset('token', 'owner', 'repo', screenshot, 'bugdrop-assets'))
+      .resolves.toContain('/bugdrop-assets/');
+  });
+});
+
+describe('deleteBranchFiles', () => {
+  afterEach(() => {
+    vi.unstubAllGlobals();
+  });
+
+  it('removes the files in a single commit on top of the branch', async () => {
+    const { deleteBranchFiles } = await import('../src/lib/assetBranch');
+    const fetchMock = vi.fn(async (url: string) => {
+      if (url.endsWith('/git/trees')) return Response.json({ sha: 'new-tree' }, { status: 201 });
+      if (url.endsWith('/git/commits')) return Response.json({ sha: 'new-commit' }, { status: 201 });
+      return Response.json({});
+    });
+    vi.stubGlobal('fetch', fetchMock);
+
+    await deleteBranchFiles(
+      'token',
+      'owner',
+      'repo',
+      'bugdrop-assets',
+      { commitSha: 'head', treeSha: 'tree' },
+      ['.bugdrop/screenshots/1.png', '.bugdrop/screenshots/2.png'],
+      'Remove 2 expired BugDrop screenshots'
+    );
+
+    const bodies = fetchMock.mock.calls.map(([url, init]) => [url, init.method, JSON.parse(init.body)]);
+    expect(bodies).toEqual([
+      ['https://api.github.com/repos/owner/repo/git/trees', 'POST', {
+        base_tree: 'tree',
+        tree: [
+          { path: '.bugdrop/screenshots/1.png', mode: '100644', type: 'blob', sha: null },
+          { path: '.bugdrop/screenshots/2.png', mode: '100644', type: 'blob', sha: null },
+        ],
+      }],
+      ['https://api.github.com/repos/owner/repo/git/commits', 'POST', {
+        message: 'Remove 2 expired BugDrop screenshots',
+        tree: 'new-tree',
+        parents: ['head'],
+      }],
+      ['https://api.github.com/repos/owner/repo/git/refs/heads/bugdrop-assets', 'PATCH', { sha: 'new-commit' }],
+    ]);
+  });
+});
@@ -0,0 +1,64 @@
+import { describe, it, expect, vi, beforeEach, afterEach } from 'vitest';
+
+describe('console capture', () => {
+  const originals = { log: console.log, warn: console.warn, error: console.error };
+  let capture: typeof import('../src/widget/consoleCapture');
+
+  beforeEach(async () => {
+    // The buffer lives in module state, so each test gets a fresh copy
+    vi.resetModules();
+    console.log = vi.fn();
+    console.warn = vi.fn();
+    console.error = vi.fn();
+    capture = await import('../src/widget/consoleCapture');
+  });
+
+  afterEach(() => {
+    Object.assign(console, originals);
+  });
+
+  it('records levels and messages and still calls the original methods', () => {
+    const originalWarn = console.warn;
+    capture.startConsoleCapture();
+
+    console.log('loaded', 3, { ok: true });
+    console.warn('slow response');
+    console.error(new TypeError('x is undefined'));
+
+    const logs = capture.getConsoleLogs();
+    expect(logs.map((entry) => entry.level)).toEqual(['log', 'warn', 'error']);
+    expect(logs[0].message).toBe('loaded 3 {"ok":true}');
+    expect(logs[2].message).toContain('TypeError: x is undefined');
+    expect(logs[0].timestamp).toMatch(/^\d{4}-\d{2}-\d{2}T/);
+    expect(originalWarn).toHaveBeenCalledWith('slow response');
+  });
+
+  it('keeps only the most recent entries', () => {
+    capture.startConsoleCapture();
+
+    for (let i = 0; i < 150; i++) console.log(`line ${i}`);
+
+    const logs = capture.getConsoleLogs();
+    expect(logs).toHaveLength(100);
+    expect(logs[0].message).toBe('line 50');
+    expect(logs[99].message).toBe('line 149');
+  });
+
+  it('strips query strings and fragments from URLs in log lines', () => {
+    capture.startConsoleCapture();
+
+    console.log('GET https://api.example.com/users?token=secret#x failed');
+
+    expect(capture.getConsoleLogs()[0].message).toBe('GET https://api.example.com/users failed');
+  });
+
+  it('handles values that cannot be serialized', () => {
+    capture.startConsoleCapture();
+    const circular: Record<string, unknown> = {};
+    circular.self = circular;
+
+    console.log(circular);
+
+    expect(capture.getConsoleLogs()[0].message).toBe('[object Object]');
+  });
+});
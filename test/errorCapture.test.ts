@@ -0,0 +1,87 @@
+import { describe, it, expect, vi, beforeEach, afterEach } from 'vitest';
+
+// Node has no window or ErrorEvent, so a bare EventTarget stands in for the page
+class TestErrorEvent extends Event {
+  constructor(
+    readonly message: string,
+    readonly error: unknown,
+    readonly filename = '',
+    readonly lineno = 0,
+    readonly colno = 0
+  ) {
+    super('error');
+  }
+}
+
+function rejection(reason: unknown): Event {
+  return Object.assign(new Event('unhandledrejection'), { reason });
+}
+
+describe('error capture', () => {
+  let capture: typeof import('../src/widget/errorCapture');
+  let target: EventTarget;
+
+  beforeEach(async () => {
+    // The buffer lives in module state, so each test gets a fresh copy
+    vi.resetModules();
+    target = new EventTarget();
+    vi.stubGlobal('window', target);
+    vi.stubGlobal('ErrorEvent', TestErrorEvent);
+    capture = await import('../src/widget/errorCapture');
+  });
+
+  afterEach(() => {
+    vi.unstubAllGlobals();
+  });
+
+  it('records uncaught errors with their stack and notifies the listener', () => {
+    const onError = vi.fn();
+    capture.startErrorCapture(onError);
+    const error = new TypeError('x is undefined');
+    error.stack = 'TypeError: x is undefined\n    at render (https://app.example.com/main.js?v=2:10:5)';
+
+    target.dispatchEvent(new TestErrorEvent(error.message, error));
+
+    const [entry] = capture.getCapturedErrors();
+    expect(entry).toMatchObject({
+      type: 'error',
+      message: 'TypeError: x is undefined',
+      stack: 'TypeError: x is undefined\n    at render (https://app.example.com/main.js:10:5)',
+    });
+    expect(onError).toHaveBeenCalledWith(entry);
+  });
+
+  it('uses the script location when there is no Error object', () => {
+    capture.startErrorCapture();
+
+    target.dispatchEvent(new TestErrorEvent('Script error.', null, 'https://cdn.example.com/lib.js', 1, 42));
+
+    expect(capture.getCapturedErrors()[0]).toMatchObject({
+      message: 'Script error.',
+      source: 'https://cdn.example.com/lib.js:1:42',
+    });
+  });
+
+  it('records unhandled rejections and ignores resource load errors', () => {
+    capture.startErrorCapture();
+
+    target.dispatchEvent(new Event('error'));
+    target.dispatchEvent(rejection('quota exceeded'));
+
+    expect(capture.getCapturedErrors()).toEqual([
+      expect.objectContaining({ type: 'unhandledrejection', message: 'quota exceeded' }),
+    ]);
+  });
+
+  it('keeps the most recent errors until they are cleared', () => {
+    capture.startErrorCapture();
+
+    for (let i = 0; i < 12; i++) target.dispatchEvent(rejection(`failure ${i}`));
+
+    expect(capture.getCapturedErrors()).toHaveLength(10);
+    expect(capture.getCapturedErrors()[0].message).toBe('failure 2');
+
+    capture.clearCapturedErrors();
+    expect(capture.getCapturedErrors()).toEqual([]);
+  });
+});
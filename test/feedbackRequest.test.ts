@@ -0,0 +1,225 @@
+import { describe, it, expect } from 'vitest';
+import type { Env } from '../src/types';
+import { readFeedbackRequest, FeedbackRequestError } from '../src/lib/feedbackRequest';
+
+const env = { MAX_SCREENSHOT_SIZE_MB: '1' } as Env;
+const payload = {
+  repo: 'owner/repo',
+  title: 'Broken button',
+  description: 'Nothing happens',
+  metadata: {
+    url: 'http://localhost:3000',
+    userAgent: 'Mozilla/5.0',
+    viewport: { width: 1920, height: 1080 },
+    timestamp: '2025-01-15T12:00:00Z',
+  },
+};
+
+function multipartRequest(form: FormData): Request {
+  return new Request('http://localhost/feedback', { method: 'POST', body: form });
+}
+
+async function expectError(request: Request, status: number, message: string) {
+  const error = await readFeedbackRequest(request, env).catch((e) => e);
+  expect(error).toBeInstanceOf(FeedbackRequestError);
+  expect(error.status).toBe(status);
+  expect(error.message).toContain(message);
+}
+
+describe('readFeedbackRequest', () => {
+  it('reads JSON bodies with a data URL screenshot', async () => {
+    const screenshot = 'data:image/png;base64,iVBORw0KGgo=';
+    const request = new Request('http://localhost/feedback', {
+      method: 'POST',
+      headers: { 'Content-Type': 'application/json' },
+      body: JSON.stringify({ ...payload, screenshot }),
+    });
+
+    const result = await readFeedbackRequest(request, env);
+
+    expect(result.payload.title).toBe('Broken button');
+    expect(result.screenshot).toBe(screenshot);
+  });
+
+  it('reads multipart bodies with a binary screenshot part', async () => {
+    const form = new FormData();
+    form.append('payload', JSON.stringify(payload));
+    form.append('screenshot', new Blob([new Uint8Array([137, 80, 78, 71])], { type: 'image/png' }), 'shot.png');
+
+    const result = await readFeedbackRequest(multipartRequest(form), env);
+
+    expect(result.payload.repo).toBe('owner/repo');
+    expect(result.screenshot).toBeInstanceOf(Blob);
+    expect((result.screenshot as Blob).type).toBe('image/png');
+    expect((result.screenshot as Blob).size).toBe(4);
+  });
+
+  it('reads the annotated screenshot from JSON and multipart bodies', async () => {
+    const annotations = 'data:image/png;base64,iVBORw0KGgo=';
+    const json = await readFeedbackRequest(new Request('http://localhost/feedback', {
+      method: 'POST',
+      headers: { 'Content-Type': 'application/json' },
+      body: JSON.stringify({ ...payload, annotations }),
+    }), env);
+    expect(json.annotations).toBe(annotations);
+
+    const form = new FormData();
+    form.append('payload', JSON.stringify(payload));
+    form.append('screenshot', new Blob([new Uint8Array(4)], { type: 'image/png' }), 'shot.png');
+    form.append('annotations', new Blob([new Uint8Array(5)], { type: 'image/png' }), 'annotated.png');
+    const multipart = await readFeedbackRequest(multipartRequest(form), env);
+    expect((multipart.screenshot as Blob).size).toBe(4);
+    expect((multipart.annotations as Blob).size).toBe(5);
+  });
+
+  it('applies the screenshot limit to the annotated screenshot', async () => {
+    const form = new FormData();
+    form.append('payload', JSON.stringify(payload));
+    form.append('annotations', new Blob([new Uint8Array(1.5 * 1024 * 1024)], { type: 'image/png' }), 'a.png');
+
+    await expectError(multipartRequest(form), 400, 'Screenshot too large');
+  });
+
+  it('returns the same parse for repeated reads of one request', async () => {
+    const form = new FormData();
+    form.append('payload', JSON.stringify(payload));
+    const request = multipartRequest(form);
+
+    const first = await readFeedbackRequest(request, env);
+    const second = await readFeedbackRequest(request, env);
+
+    expect(second).toBe(first);
+  });
+
+  it('rejects multipart bodies over the limit while streaming', async () => {
+    const form = new FormData();
+    form.append('payload', JSON.stringify(payload));
+    form.append('screenshot', new Blob([new Uint8Array(19 * 1024 * 1024)], { type: 'image/png' }), 'shot.png');
+
+    await expectError(multipartRequest(form), 413, 'Request too large');
+  });
+
+  it('rejects screenshot parts over the screenshot limit', async () => {
+    const form = new FormData();
+    form.append('payload', JSON.stringify(payload));
+    form.append('screenshot', new Blob([new Uint8Array(1.5 * 1024 * 1024)], { type: 'image/png' }), 'shot.png');
+
+    await expectError(multipartRequest(form), 400, 'Screenshot too large: 1.5MB exceeds 1MB limit');
+  });
+
+  it('rejects unsupported screenshot types', async () => {
+    const form = new FormData();
+    form.append('payload', JSON.stringify(payload));
+    form.append('screenshot', new Blob(['<svg/>'], { type: 'image/svg+xml' }), 'shot.svg');
+
+    await expectError(multipartRequest(form), 400, 'Unsupported screenshot type');
+  });
+});
+
+describe('readFeedbackRequest attachments and captured data', () => {
+  it('reads attachments from multipart parts and JSON data URLs', async () => {
+    const form = new FormData();
+    form.append('payload', JSON.stringify(payload));
+    form.append('attachment', new Blob(['line 1'], { type: '' }), '../logs/app server.log');
+    form.append('attachment', new Blob(['{}'], { type: 'application/json' }), 'state.json');
+
+    const multipart = await readFeedbackRequest(multipartRequest(form), env);
+
+    expect(multipart.attachments.map((file) => [file.name, file.type, file.size])).toEqual([
+      ['app_server.log', 'text/plain', 6],
+      ['state.json', 'application/json', 2],
+    ]);
+
+    const json = await readFeedbackRequest(new Request('http://localhost/feedback', {
+      method: 'POST',
+      headers: { 'Content-Type': 'application/json' },
+      body: JSON.stringify({ ...payload, attachments: [{ name: 'data.csv', data: 'data:text/csv;base64,YSxi' }] }),
+    }), env);
+
+    expect(json.attachments).toHaveLength(1);
+    expect(json.attachments[0].type).toBe('text/csv');
+    expect(await json.attachments[0].text()).toBe('a,b');
+  });
+
+  it('rejects JSON attachments that are not an array', async () => {
+    for (const attachments of ['x', {}]) {
+      await expectError(new Request('http://localhost/feedback', {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({ ...payload, attachments }),
+      }), 400, 'Attachments must be an array');
+    }
+  });
+
+  it('rejects captured lists that are not arrays of objects', async () => {
+    await expectError(new Request('http://localhost/feedback', {
+      method: 'POST',
+      headers: { 'Content-Type': 'application/json' },
+      body: JSON.stringify({ ...payload, consoleLogs: 'x' }),
+    }), 400, 'consoleLogs must be an array of objects');
+
+    const form = new FormData();
+    form.append('payload', JSON.stringify({ ...payload, metadata: { ...payload.metadata, errors: [null] } }));
+    await expectError(multipartRequest(form), 400, 'metadata.errors must be an array of objects');
+  });
+
+  it('rejects attachments outside the type, count and size limits', async () => {
+    const withAttachments = (...files: Array<[BlobPart, string]>) => {
+      const form = new FormData();
+      form.append('payload', JSON.stringify(payload));
+      for (const [content, name] of files) {
+        form.append('attachment', new Blob([content]), name);
+      }
+      return multipartRequest(form);
+    };
+
+    await expectError(withAttachments(['MZ', 'setup.exe']), 400, 'Unsupported attachment type: setup.exe');
+    await expectError(
+      withAttachments(...Array.from({ length: 6 }, (_, i): [BlobPart, string] => ['x', `${i}.txt`])),
+      400,
+      'Too many attachments'
+    );
+    await expectError(
+      withAttachments([new Uint8Array(6 * 1024 * 1024), 'big.zip']),
+      400,
+      'Attachment too large: big.zip exceeds 5MB limit'
+    );
+    await expectError(
+      withAttachments([new Uint8Array(4 * 1024 * 1024), 'a.zip'], [new Uint8Array(4 * 1024 * 1024), 'b.zip'], [new Uint8Array(4 * 1024 * 1024), 'c.zip']),
+      400,
+      'Attachments too large'
+    );
+  });
+
+  it('reads gzipped DOM snapshots and rejects anything else', async () => {
+    const gzip = await new Response(
+      new Blob(['<html></html>']).stream().pipeThrough(new CompressionStream('gzip'))
+    ).blob();
+    const withSnapshot = (snapshot: Blob) => {
+      const form = new FormData();
+      form.append('payload', JSON.stringify(payload));
+      form.append('domSnapshot', snapshot, 'page.gz');
+      return multipartRequest(form);
+    };
+
+    const result = await readFeedbackRequest(withSnapshot(gzip), env);
+
+    expect(result.domSnapshot?.name).toBe('dom-snapshot.html.gz');
+    expect(result.domSnapshot?.type).toBe('application/gzip');
+    await expectError(withSnapshot(new Blob(['<html></html>'])), 400, 'DOM snapshot must be gzip-compressed');
+  });
+
+  it('rejects multipart bodies without a payload part', async () => {
+    const form = new FormData();
+    form.append('screenshot', new Blob([new Uint8Array(4)], { type: 'image/png' }), 'shot.png');
+
+    await expectError(multipartRequest(form), 400, 'Missing payload part');
+  });
+
+  it('rejects invalid JSON in the payload part', async () => {
+    const form = new FormData();
+    form.append('payload', 'invalid json{');
+
+    await expectError(multipartRequest(form), 400, 'Invalid JSON in payload part');
+  });
+});
@@ -0,0 +1,103 @@
+import { describe, it, expect, vi, beforeEach, afterEach } from 'vitest';
+import type { Env } from '../src/types';
+
+const mockGenerateGitHubAppJWT = vi.fn();
+
+vi.mock('../src/lib/jwt', () => ({
+  generateGitHubAppJWT: (...args: unknown[]) => mockGenerateGitHubAppJWT(...args),
+}));
+
+describe('getInstallationToken', () => {
+  let getInstallationToken: typeof import('../src/lib/github').getInstallationToken;
+  let fetchMock: ReturnType<typeof vi.fn>;
+  const env = { GITHUB_APP_ID: '1', GITHUB_PRIVATE_KEY: 'key' } as Env;
+
+  beforeEach(async () => {
+    // Fresh modules per test so the per-isolate caches start empty
+    vi.resetModules();
+    ({ getInstallationToken } = await import('../src/lib/github'));
+    mockGenerateGitHubAppJWT.mockReset().mockResolvedValue('app-jwt');
+    fetchMock = vi.fn(async (url: string) => {
+      if (url.endsWith('/installation')) {
+        return Response.json({ id: 7 });
+      }
+      return Response.json({
+        token: 'ghs_token',
+        expires_at: new Date(Date.now() + 60 * 60 * 1000).toISOString(),
+      });
+    });
+    vi.stubGlobal('fetch', fetchMock);
+  });
+
+  afterEach(() => {
+    vi.unstubAllGlobals();
+  });
+
+  it('looks up the installation and mints a token on first use', async () => {
+    expect(await getInstallationToken(env, 'owner', 'repo')).toBe('ghs_token');
+
+    expect(fetchMock).toHaveBeenCalledTimes(2);
+    expect(mockGenerateGitHubAppJWT).toHaveBeenCalledTimes(1);
+  });
+
+  it('reuses the cached installation and token', async () => {
+    await getInstallationToken(env, 'owner', 'repo');
+    await getInstallationToken(env, 'owner', 'repo');
+    await getInstallationToken(env, 'owner', 'other-repo');
+
+    // Second repo of the same installation only needs the installation lookup
+    expect(fetchMock).toHaveBeenCalledTimes(3);
+  });
+
+  it('returns null and forgets the installation when minting fails', async () => {
+    vi.spyOn(console, 'error').mockImplementation(() => {});
+    fetchMock.mockImplementation(async (url: string) => {
+      if (url.endsWith('/installation')) {
+        return Response.json({ id: 7 });
+      }
+      return new Response('Not Found', { status: 404 });
+    });
+
+    expect(await getInstallationToken(env, 'owner', 'repo')).toBeNull();
+    expect(await getInstallationToken(env, 'owner', 'repo')).toBeNull();
+
+    // Both calls had to look the installation up again
+    expect(fetchMock.mock.calls.filter(([url]) => url.endsWith('/installation'))).toHaveLength(2);
+  });
+
+  it('returns null when the app is not installed', async () => {
+    vi.spyOn(console, 'error').mockImplementation(() => {});
+    fetchMock.mockResolvedValue(new Response('Not Found', { status: 404 }));
+
+    expect(await getInstallationToken(env, 'owner', 'repo')).toBeNull();
+    expect(fetchMock).toHaveBeenCalledTimes(1);
+  });
+});
+
+describe('listInstallationRepos', () => {
+  const env = { GITHUB_APP_ID: '1', GITHUB_PRIVATE_KEY: 'key' } as Env;
+
+  afterEach(() => {
+    vi.unstubAllGlobals();
+  });
+
+  it('lists the repositories of an installation across pages', async () => {
+    vi.resetModules();
+    const { listInstallationRepos } = await import('../src/lib/github');
+    mockGenerateGitHubAppJWT.mockReset().mockResolvedValue('app-jwt');
+    const repo = (i: number) => ({ name: `repo-${i}`, owner: { login: 'org' } });
+    vi.stubGlobal('fetch', vi.fn(async (url: string) => {
+      const page = Number(new URL(url).searchParams.get('page'));
+      if (url.includes('/access_tokens')) {
+        return Response.json({ token: 'ghs_token', expires_at: new Date(Date.now() + 3600_000).toISOString() });
+      }
+      const count = page === 1 ? 100 : 5;
+      return Response.json({ repositories: Array.from({ length: count }, (_, i) => repo((page - 1) * 100 + i)) });
+    }));
+
+    const repos = await listInstallationRepos(env, 7);
+
+    expect(repos).toHaveLength(105);
+    expect(repos[104]).toEqual({ owner: 'org', repo: 'repo-104', token: 'ghs_token' });
+  });
+});
@@ -0,0 +1,140 @@
+import { describe, it, expect, beforeAll } from 'vitest';
+import type { Env, RepoConfig } from '../src/types';
+import { verifySubmitterToken } from '../src/lib/identity';
+import { signToken } from '../src/lib/jwt';
+
+const config = { identityPublicKey: undefined } as RepoConfig;
+// Claims every valid token carries: BugDrop audience, issued now, expiring in 5 minutes
+const lifetime = () => {
+  const now = Math.floor(Date.now() / 1000);
+  return { aud: 'bugdrop', iat: now, exp: now + 300 };
+};
+
+function base64Url(data: ArrayBuffer | string): string {
+  const bytes = typeof data === 'string' ? new TextEncoder().encode(data) : new Uint8Array(data);
+  return btoa(String.fromCharCode(...bytes)).replace(/\+/g, '-').replace(/\//g, '_').replace(/=+$/, '');
+}
+
+function kvEnv(secrets: Record<string, string>): Env {
+  return {
+    STATE: { get: async (key: string) => secrets[key] ?? null } as unknown as KVNamespace,
+  } as Env;
+}
+
+describe('verifySubmitterToken', () => {
+  let keyPair: CryptoKeyPair;
+  let publicKeyPem: string;
+
+  async function signRS256(claims: Record<string, unknown>, key = keyPair.privateKey): Promise<string> {
+    const input = `${base64Url(JSON.stringify({ alg: 'RS256', typ: 'JWT' }))}.${base64Url(JSON.stringify(claims))}`;
+    const signature = await crypto.subtle.sign({ name: 'RSASSA-PKCS1-v1_5' }, key, new TextEncoder().encode(input));
+    return `${input}.${base64Url(signature)}`;
+  }
+
+  beforeAll(async () => {
+    keyPair = await crypto.subtle.generateKey(
+      { name: 'RSASSA-PKCS1-v1_5', modulusLength: 2048, publicExponent: new Uint8Array([1, 0, 1]), hash: 'SHA-256' },
+      true,
+      ['sign', 'verify']
+    ) as CryptoKeyPair;
+    const spki = await crypto.subtle.exportKey('spki', keyPair.publicKey) as ArrayBuffer;
+    const base64 = btoa(String.fromCharCode(...new Uint8Array(spki)));
+    publicKeyPem = `-----BEGIN PUBLIC KEY-----\n${base64.match(/.{1,64}/g)!.join('\n')}\n-----END PUBLIC KEY-----`;
+  });
+
+  it('accepts HS256 tokens signed with the repo secret from KV', async () => {
+    const env = kvEnv({ 'identity-secret:owner/repo': 'shared' });
+    const token = await signToken({ sub: '42', name: 'Ada', email: 'ada@corp.com', ...lifetime() }, 'shared');
+
+    expect(await verifySubmitterToken(env, 'Owner', 'Repo', config, token)).toEqual({
+      id: '42',
+      name: 'Ada',
+      email: 'ada@corp.com',
+    });
+  });
+
+  it('accepts RS256 tokens signed for the repo public key', async () => {
+    const token = await signRS256({ sub: '42', name: 'Ada', ...lifetime() });
+
+    expect(await verifySubmitterToken({} as Env, 'owner', 'repo', { ...config, identityPublicKey: publicKeyPem }, token))
+      .toEqual({ id: '42', name: 'Ada', email: undefined });
+  });
+
+  it('rejects RS256 tokens signed with another key', async () => {
+    const other = await crypto.subtle.generateKey(
+      { name: 'RSASSA-PKCS1-v1_5', modulusLength: 2048, publicExponent: new Uint8Array([1, 0, 1]), hash: 'SHA-256' },
+      false,
+      ['sign', 'verify']
+    ) as CryptoKeyPair;
+    const token = await signRS256({ sub: '42', ...lifetime() }, other.privateKey);
+
+    expect(await verifySubmitterToken({} as Env, 'owner', 'repo', { ...config, identityPublicKey: publicKeyPem }, token))
+      .toBeNull();
+  });
+
+  it('rejects tokens signed with another repo secret', async () => {
+    const env = kvEnv({ 'identity-secret:owner/repo': 'shared' });
+    const token = await signToken({ sub: '42', ...lifetime() }, 'other-repo-secret');
+
+    expect(await verifySubmitterToken(env, 'owner', 'repo', config, token)).toBeNull();
+  });
+
+  it('rejects tokens without a subject or expiry', async () => {
+    const env = kvEnv({ 'identity-secret:owner/repo': 'shared' });
+
+    expect(await verifySubmitterToken(env, 'owner', 'repo', config, await signToken({ name: 'Ada', ...lifetime() }, 'shared')))
+      .toBeNull();
+    expect(await verifySubmitterToken(env, 'owner', 'repo', config, await signToken({ sub: '42' }, 'shared')))
+      .toBeNull();
+  });
+
+  it('rejects expired tokens', async () => {
+    const env = kvEnv({ 'identity-secret:owner/repo': 'shared' });
+    const now = Math.floor(Date.now() / 1000);
+    const token = await signToken({ sub: '42', aud: 'bugdrop', iat: now - 310, exp: now - 10 }, 'shared');
+
+    expect(await verifySubmitterToken(env, 'owner', 'repo', config, token)).toBeNull();
+  });
+
+  it('rejects tokens without an issue time', async () => {
+    const env = kvEnv({ 'identity-secret:owner/repo': 'shared' });
+    const { iat: _iat, ...claims } = lifetime();
+    const token = await signToken({ sub: '42', ...claims }, 'shared');
+
+    expect(await verifySubmitterToken(env, 'owner', 'repo', config, token)).toBeNull();
+  });
+
+  it('rejects tokens issued in the future', async () => {
+    const env = kvEnv({ 'identity-secret:owner/repo': 'shared' });
+    const claims = lifetime();
+    const token = await signToken({ sub: '42', ...claims, iat: claims.iat + 600, exp: claims.iat + 900 }, 'shared');
+
+    expect(await verifySubmitterToken(env, 'owner', 'repo', config, token)).toBeNull();
+  });
+
+  it('rejects tokens that live longer than an hour', async () => {
+    const env = kvEnv({ 'identity-secret:owner/repo': 'shared' });
+    const claims = lifetime();
+    const token = await signToken({ sub: '42', ...claims, exp: claims.iat + 365 * 24 * 60 * 60 }, 'shared');
+
+    expect(await verifySubmitterToken(env, 'owner', 'repo', config, token)).toBeNull();
+  });
+
+  it('rejects tokens not meant for BugDrop', async () => {
+    const env = kvEnv({ 'identity-secret:owner/repo': 'shared' });
+    const { aud: _aud, ...session } = lifetime();
+
+    expect(await verifySubmitterToken(env, 'owner', 'repo', config, await signToken({ sub: '42', ...session }, 'shared')))
+      .toBeNull();
+    expect(await verifySubmitterToken(env, 'owner', 'repo', config,
+      await signToken({ sub: '42', ...session, aud: 'my-app' }, 'shared'))).toBeNull();
+    expect(await verifySubmitterToken(env, 'owner', 'repo', config,
+      await signToken({ sub: '42', ...session, aud: ['my-app', 'bugdrop'] }, 'shared'))).toEqual({ id: '42' });
+  });
+
+  it('returns null when the repo has no key', async () => {
+    const token = await signToken({ sub: '42', ...lifetime() }, 'shared');
+
+    expect(await verifySubmitterToken({} as Env, 'owner', 'repo', config, token)).toBeNull();
+  });
+});
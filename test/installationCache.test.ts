@@ -0,0 +1,108 @@
+import { describe, it, expect, vi, beforeEach, afterEach } from 'vitest';
+import type { Env } from '../src/types';
+
+type CacheModule = typeof import('../src/lib/installationCache');
+
+// A Map-backed stand-in for the STATE KV namespace
+function createKv() {
+  const store = new Map<string, string>();
+  return {
+    store,
+    get: vi.fn(async (key: string, type?: string) => {
+      const value = store.get(key) ?? null;
+      return value !== null && type === 'json' ? JSON.parse(value) : value;
+    }),
+    put: vi.fn(async (key: string, value: string) => {
+      store.set(key, value);
+    }),
+    delete: vi.fn(async (key: string) => {
+      store.delete(key);
+    }),
+  };
+}
+
+describe('installation cache', () => {
+  let cache: CacheModule;
+  let kv: ReturnType<typeof createKv>;
+  let env: Env;
+
+  beforeEach(async () => {
+    // Fresh module per test so the per-isolate maps start empty
+    vi.resetModules();
+    cache = await import('../src/lib/installationCache');
+    kv = createKv();
+    env = { STATE: kv as unknown as KVNamespace } as Env;
+  });
+
+  afterEach(() => {
+    vi.useRealTimers();
+  });
+
+  it('returns null for unknown repos', async () => {
+    expect(await cache.getCachedInstallationId(env, 'owner', 'repo')).toBeNull();
+  });
+
+  it('caches installation IDs in memory and KV', async () => {
+    vi.useFakeTimers();
+    await cache.cacheInstallationId(env, 'Owner', 'Repo', 7);
+
+    expect(await cache.getCachedInstallationId(env, 'owner', 'repo')).toBe(7);
+    expect(kv.store.has('installation:owner/repo')).toBe(true);
+    expect(kv.put.mock.calls[0][2]).toEqual({ expirationTtl: 24 * 60 * 60 });
+  });
+
+  it('reads IDs stored by another isolate from KV', async () => {
+    await cache.cacheInstallationId(env, 'owner', 'repo', 7);
+    vi.resetModules();
+    const otherIsolate: CacheModule = await import('../src/lib/installationCache');
+
+    expect(await otherIsolate.getCachedInstallationId(env, 'owner', 'repo')).toBe(7);
+  });
+
+  it('works in memory without a KV namespace', async () => {
+    const memoryEnv = {} as Env;
+    await cache.cacheToken(memoryEnv, 7, 'ghs_token', new Date(Date.now() + 60 * 60 * 1000).toISOString());
+
+    expect(await cache.getCachedToken(memoryEnv, 7)).toBe('ghs_token');
+  });
+
+  it('stops returning tokens shortly before they expire', async () => {
+    vi.useFakeTimers();
+    vi.setSystemTime(new Date('2025-01-15T12:00:00Z'));
+    await cache.cacheToken(env, 7, 'ghs_token', '2025-01-15T13:00:00Z');
+
+    vi.setSystemTime(new Date('2025-01-15T12:50:00Z'));
+    expect(await cache.getCachedToken(env, 7)).toBe('ghs_token');
+
+    vi.setSystemTime(new Date('2025-01-15T12:56:00Z'));
+    expect(await cache.getCachedToken(env, 7)).toBeNull();
+  });
+
+  it('does not cache tokens that are about to expire', async () => {
+    await cache.cacheToken(env, 7, 'ghs_token', new Date(Date.now() + 60 * 1000).toISOString());
+
+    expect(await cache.getCachedToken(env, 7)).toBeNull();
+    expect(kv.put).not.toHaveBeenCalled();
+  });
+
+  it('forgets every repo and token of an installation', async () => {
+    await cache.cacheInstallationId(env, 'owner', 'one', 7);
+    await cache.cacheInstallationId(env, 'owner', 'two', 7);
+    await cache.cacheInstallationId(env, 'owner', 'other', 8);
+    await cache.cacheToken(env, 7, 'ghs_token', new Date(Date.now() + 60 * 60 * 1000).toISOString());
+
+    await cache.forgetInstallation(env, 7);
+
+    expect(await cache.getCachedInstallationId(env, 'owner', 'one')).toBeNull();
+    expect(await cache.getCachedInstallationId(env, 'owner', 'two')).toBeNull();
+    expect(await cache.getCachedToken(env, 7)).toBeNull();
+    expect(await cache.getCachedInstallationId(env, 'owner', 'other')).toBe(8);
+  });
+
+  it('treats KV errors as cache misses', async () => {
+    kv.get.mockRejectedValue(new Error('KV unavailable'));
+    vi.spyOn(console, 'error').mockImplementation(() => {});
+
+    expect(await cache.getCachedInstallationId(env, 'owner', 'repo')).toBeNull();
+  });
+});
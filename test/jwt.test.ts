@@ -0,0 +1,44 @@
+import { describe, it, expect, vi, afterEach } from 'vitest';
+import { signToken, verifyToken } from '../src/lib/jwt';
+
+describe('HS256 tokens', () => {
+  afterEach(() => {
+    vi.useRealTimers();
+  });
+
+  it('round-trips claims, including non-ASCII text', async () => {
+    const token = await signToken({ purpose: 'test', name: 'Zoë' }, 'secret');
+
+    expect(token.split('.')).toHaveLength(3);
+    expect(await verifyToken(token, 'secret')).toEqual({ purpose: 'test', name: 'Zoë' });
+  });
+
+  it('rejects tokens signed with a different secret', async () => {
+    const token = await signToken({ purpose: 'test' }, 'secret');
+
+    expect(await verifyToken(token, 'other-secret')).toBeNull();
+  });
+
+  it('rejects tampered claims', async () => {
+    const token = await signToken({ issue: 1 }, 'secret');
+    const [header, , signature] = token.split('.');
+    const forged = btoa(JSON.stringify({ issue: 2 })).replace(/=+$/, '');
+
+    expect(await verifyToken(`${header}.${forged}.${signature}`, 'secret')).toBeNull();
+  });
+
+  it('rejects expired tokens', async () => {
+    const now = Math.floor(Date.now() / 1000);
+    const token = await signToken({ exp: now + 60 }, 'secret');
+
+    vi.useFakeTimers();
+    vi.setSystemTime((now + 120) * 1000);
+
+    expect(await verifyToken(token, 'secret')).toBeNull();
+  });
+
+  it('rejects malformed tokens', async () => {
+    expect(await verifyToken('not-a-token', 'secret')).toBeNull();
+    expect(await verifyToken('a.b.c', 'secret')).toBeNull();
+  });
+});
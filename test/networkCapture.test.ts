@@ -0,0 +1,76 @@
+import { describe, it, expect, vi, beforeEach, afterEach } from 'vitest';
+
+describe('network capture', () => {
+  const originalFetch = globalThis.fetch;
+  let capture: typeof import('../src/widget/networkCapture');
+  let fetchMock: ReturnType<typeof vi.fn>;
+
+  beforeEach(async () => {
+    // The buffer lives in module state, so each test gets a fresh copy
+    vi.resetModules();
+    fetchMock = vi.fn(async (input: RequestInfo | URL) =>
+      String(input).includes('/missing') ? new Response('Not Found', { status: 404 }) : new Response('ok')
+    );
+    globalThis.fetch = fetchMock as typeof fetch;
+    capture = await import('../src/widget/networkCapture');
+    capture.startNetworkCapture(['https://bugdrop.example.com/api']);
+  });
+
+  afterEach(() => {
+    globalThis.fetch = originalFetch;
+    vi.useRealTimers();
+  });
+
+  it('records failed requests with a redacted URL and no bodies', async () => {
+    const response = await fetch('https://app.example.com/missing?token=secret', {
+      method: 'post',
+      body: 'password=hunter2',
+    });
+
+    expect(response.status).toBe(404);
+    expect(capture.getNetworkRequests()).toEqual([{
+      method: 'POST',
+      url: 'https://app.example.com/missing',
+      status: 404,
+      durationMs: expect.any(Number),
+      timestamp: expect.stringMatching(/^\d{4}-\d{2}-\d{2}T/),
+    }]);
+  });
+
+  it('records requests that fail without a response and rethrows', async () => {
+    fetchMock.mockRejectedValueOnce(new TypeError('Failed to fetch'));
+
+    await expect(fetch(new Request('https://app.example.com/data'))).rejects.toThrow('Failed to fetch');
+
+    expect(capture.getNetworkRequests()[0]).toMatchObject({ method: 'GET', status: 0 });
+  });
+
+  it('records slow requests but not fast successful ones', async () => {
+    vi.useFakeTimers({ toFake: ['Date'] });
+    fetchMock.mockImplementationOnce(async () => {
+      vi.advanceTimersByTime(5000);
+      return new Response('ok');
+    });
+
+    await fetch('https://app.example.com/slow');
+    await fetch('https://app.example.com/fast');
+
+    expect(capture.getNetworkRequests()).toEqual([
+      expect.objectContaining({ url: 'https://app.example.com/slow', status: 200, durationMs: 5000 }),
+    ]);
+  });
+
+  it("skips the widget's own API calls", async () => {
+    await fetch('https://bugdrop.example.com/api/missing');
+
+    expect(capture.getNetworkRequests()).toEqual([]);
+  });
+
+  it('keeps only the most recent requests', async () => {
+    for (let i = 0; i < 25; i++) await fetch(`https://app.example.com/missing/${i}`);
+
+    const requests = capture.getNetworkRequests();
+    expect(requests).toHaveLength(20);
+    expect(requests[0].url).toBe('https://app.example.com/missing/5');
+  });
+});
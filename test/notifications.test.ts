@@ -0,0 +1,154 @@
+import { describe, it, expect, vi, beforeEach, afterEach } from 'vitest';
+import type { Env } from '../src/types';
+import { notifySubmission } from '../src/lib/notifications';
+import type { SubmissionNotification } from '../src/lib/notifications';
+
+const secrets: Record<string, string> = { 'notification-secret:testowner/testrepo': 'notify-secret' };
+const env = {
+  STATE: { get: async (key: string) => secrets[key] ?? null } as unknown as KVNamespace,
+} as Env;
+
+const notification: SubmissionNotification = {
+  repo: 'testowner/testrepo',
+  issueNumber: 42,
+  issueUrl: 'https://github.com/testowner/testrepo/issues/42',
+  title: 'Button does nothing',
+  category: 'bug',
+  pageUrl: 'https://app.example.com/settings',
+  screenshotUrl: 'https://raw.githubusercontent.com/testowner/testrepo/main/.bugdrop/s.png',
+  submitterName: 'Jordan',
+};
+
+describe('notifySubmission', () => {
+  let fetchMock: ReturnType<typeof vi.fn>;
+
+  beforeEach(() => {
+    fetchMock = vi.fn().mockResolvedValue(new Response('ok'));
+    vi.stubGlobal('fetch', fetchMock);
+    vi.spyOn(console, 'error').mockImplementation(() => {});
+  });
+
+  afterEach(() => {
+    vi.unstubAllGlobals();
+    vi.restoreAllMocks();
+  });
+
+  function sentBody(call = 0) {
+    return JSON.parse(fetchMock.mock.calls[call][1].body);
+  }
+
+  it('sends a generic payload signed with the repo secret', async () => {
+    await notifySubmission(env, [{ url: 'https://example.com/hook', format: 'generic' }], notification);
+
+    const [url, init] = fetchMock.mock.calls[0];
+    expect(url).toBe('https://example.com/hook');
+    expect(sentBody()).toEqual({
+      event: 'feedback.created',
+      repo: 'testowner/testrepo',
+      issue: { number: 42, url: notification.issueUrl, title: 'Button does nothing' },
+      category: 'bug',
+      pageUrl: 'https://app.example.com/settings',
+      screenshotUrl: notification.screenshotUrl,
+      submitter: { name: 'Jordan' },
+    });
+    expect(init.headers['X-BugDrop-Event']).toBe('feedback.created');
+
+    const key = await crypto.subtle.importKey(
+      'raw',
+      new TextEncoder().encode('notify-secret'),
+      { name: 'HMAC', hash: 'SHA-256' },
+      false,
+      ['sign']
+    );
+    const digest = await crypto.subtle.sign('HMAC', key, new TextEncoder().encode(init.body));
+    const hex = Array.from(new Uint8Array(digest), (b) => b.toString(16).padStart(2, '0')).join('');
+    expect(init.headers['X-BugDrop-Signature-256']).toBe(`sha256=${hex}`);
+  });
+
+  it('sends generic payloads unsigned when the repo has no secret', async () => {
+    await notifySubmission(env, [{ url: 'https://example.com/hook', format: 'generic' }], {
+      ...notification,
+      repo: 'otherowner/otherrepo',
+    });
+
+    expect(fetchMock.mock.calls[0][1].headers['X-BugDrop-Signature-256']).toBeUndefined();
+  });
+
+  it('escapes submitted text in Slack messages', async () => {
+    await notifySubmission(env, [{ url: 'https://hooks.slack.com/services/T/B/X', format: 'slack' }], {
+      ...notification,
+      title: '<!channel> Tom & Jerry>|evil',
+      pageUrl: 'https://app.example.com/?a=<b>',
+      submitterName: '<@U123>',
+    });
+
+    const slack = sentBody();
+    expect(slack.text).toContain('|#42 &lt;!channel&gt; Tom &amp; Jerry&gt;|evil>');
+    expect(slack.text).not.toContain('<!channel>');
+    expect(slack.blocks[0].text.text).toContain('from &lt;@U123&gt;');
+    expect(slack.blocks[0].text.text).toContain('Page: https://app.example.com/?a=&lt;b&gt;');
+  });
+
+  it('sends Slack and Discord shaped payloads', async () => {
+    await notifySubmission(env, [
+      { url: 'https://hooks.slack.com/services/T/B/X', format: 'slack' },
+      { url: 'https://discord.com/api/webhooks/1/x', format: 'discord' },
+    ], notification);
+
+    const slack = sentBody(0);
+    expect(slack.text).toContain('<https://github.com/testowner/testrepo/issues/42|#42 Button does nothing>');
+    expect(slack.blocks[0].accessory.image_url).toBe(notification.screenshotUrl);
+
+    const discord = sentBody(1);
+    expect(discord.embeds[0]).toMatchObject({
+      title: '#42 Button does nothing',
+      url: notification.issueUrl,
+      image: { url: notification.screenshotUrl },
+    });
+    expect(discord.embeds[0].fields).toContainEqual({ name: 'Submitted by', value: 'Jordan', inline: true });
+
+    expect(fetchMock.mock.calls[0][1].headers['X-BugDrop-Signature-256']).toBeUndefined();
+  });
+
+  // Backoff delays run immediately, but are recorded
+  function skipDelays() {
+    return vi.spyOn(globalThis, 'setTimeout').mockImplementation(((callback: () => void) => {
+      callback();
+      return 0;
+    }) as unknown as typeof setTimeout);
+  }
+
+  it('retries server errors with backoff', async () => {
+    const setTimeoutSpy = skipDelays();
+    fetchMock
+      .mockResolvedValueOnce(new Response('down', { status: 503 }))
+      .mockRejectedValueOnce(new Error('network error'))
+      .mockResolvedValueOnce(new Response('ok'));
+
+    await notifySubmission(env, [{ url: 'https://example.com/hook', format: 'generic' }], notification);
+
+    expect(fetchMock).toHaveBeenCalledTimes(3);
+    expect(setTimeoutSpy.mock.calls.map((call) => call[1])).toEqual([1000, 2000]);
+    expect(console.error).not.toHaveBeenCalled();
+  });
+
+  it('gives up after the last attempt without throwing', async () => {
+    skipDelays();
+    fetchMock.mockImplementation(async () => new Response('down', { status: 500 }));
+
+    await expect(
+      notifySubmission(env, [{ url: 'https://example.com/hook', format: 'generic' }], notification)
+    ).resolves.toBeUndefined();
+
+    expect(fetchMock).toHaveBeenCalledTimes(3);
+    expect(console.error).toHaveBeenCalled();
+  });
+
+  it('does not retry client errors', async () => {
+    fetchMock.mockResolvedValue(new Response('gone', { status: 404 }));
+
+    await notifySubmission(env, [{ url: 'https://example.com/hook', format: 'generic' }], notification);
+
+    expect(fetchMock).toHaveBeenCalledTimes(1);
+  });
+});
@@ -0,0 +1,39 @@
+import { describe, it, expect } from 'vitest';
+import { isOriginAllowed, parseOriginList } from '../src/lib/origins';
+
+describe('isOriginAllowed', () => {
+  it('matches exact origins case-insensitively', () => {
+    expect(isOriginAllowed('https://App.example.com', ['https://app.example.com'])).toBe(true);
+    expect(isOriginAllowed('https://app.example.com', ['https://example.com'])).toBe(false);
+  });
+
+  it('allows any origin for "*"', () => {
+    expect(isOriginAllowed('https://anything.test', ['*'])).toBe(true);
+  });
+
+  it('matches wildcard subdomains', () => {
+    const patterns = ['https://*.preview.example.com'];
+
+    expect(isOriginAllowed('https://pr-1.preview.example.com', patterns)).toBe(true);
+    expect(isOriginAllowed('https://a.b.preview.example.com', patterns)).toBe(true);
+    expect(isOriginAllowed('https://preview.example.com', patterns)).toBe(false);
+    expect(isOriginAllowed('http://pr-1.preview.example.com', patterns)).toBe(false);
+    expect(isOriginAllowed('https://evilpreview.example.com', patterns)).toBe(false);
+    expect(isOriginAllowed('https://preview.example.com.evil.com', patterns)).toBe(false);
+  });
+
+  it('keeps ports significant', () => {
+    expect(isOriginAllowed('https://a.example.com:8443', ['https://*.example.com:8443'])).toBe(true);
+    expect(isOriginAllowed('https://a.example.com', ['https://*.example.com:8443'])).toBe(false);
+  });
+});
+
+describe('parseOriginList', () => {
+  it('splits and trims comma-separated origins', () => {
+    expect(parseOriginList(' https://a.com, https://b.com ,')).toEqual(['https://a.com', 'https://b.com']);
+  });
+
+  it('defaults to allowing every origin', () => {
+    expect(parseOriginList('')).toEqual(['*']);
+  });
+});
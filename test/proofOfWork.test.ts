@@ -0,0 +1,75 @@
+import { describe, it, expect } from 'vitest';
+import type { Env } from '../src/types';
+import { issueChallenge, checkProofOfWork, getChallengeDifficulty } from '../src/lib/proofOfWork';
+
+const SECRET = 'test-signing-secret';
+const env = {} as Env;
+
+// Brute-force a solution the same way the widget does
+async function solve(challenge: string, difficulty: number): Promise<string> {
+  for (let nonce = 0; ; nonce++) {
+    const solution = nonce.toString(36);
+    const hash = new Uint8Array(await crypto.subtle.digest(
+      'SHA-256',
+      new TextEncoder().encode(`${challenge}:${solution}`)
+    ));
+    let zeroBits = 0;
+    while (zeroBits < difficulty && !(hash[zeroBits >> 3] & (0x80 >> (zeroBits & 7)))) zeroBits++;
+    if (zeroBits >= difficulty) return solution;
+  }
+}
+
+describe('proof of work', () => {
+  it('accepts a solved challenge once', async () => {
+    const { challenge } = await issueChallenge(SECRET, 'Owner/Repo', 8);
+    const solution = await solve(challenge, 8);
+
+    expect(await checkProofOfWork(env, SECRET, 'owner/repo', 8, { challenge, solution })).toBeNull();
+    expect(await checkProofOfWork(env, SECRET, 'owner/repo', 8, { challenge, solution }))
+      .toBe('CHALLENGE_INVALID');
+  });
+
+  it('requires a solution', async () => {
+    expect(await checkProofOfWork(env, SECRET, 'owner/repo', 8)).toBe('CHALLENGE_REQUIRED');
+  });
+
+  it('rejects wrong solutions', async () => {
+    const { challenge } = await issueChallenge(SECRET, 'owner/repo', 16);
+    const solution = await solve(challenge, 16);
+    const wrong = solution === '0' ? '1' : '0';
+
+    expect(await checkProofOfWork(env, SECRET, 'owner/repo', 16, { challenge, solution: wrong }))
+      .toBe('CHALLENGE_INVALID');
+  });
+
+  it('rejects challenges for another repo', async () => {
+    const { challenge } = await issueChallenge(SECRET, 'owner/other', 4);
+    const solution = await solve(challenge, 4);
+
+    expect(await checkProofOfWork(env, SECRET, 'owner/repo', 4, { challenge, solution }))
+      .toBe('CHALLENGE_INVALID');
+  });
+
+  it('rejects challenges easier than the repo requires', async () => {
+    const { challenge } = await issueChallenge(SECRET, 'owner/repo', 2);
+    const solution = await solve(challenge, 2);
+
+    expect(await checkProofOfWork(env, SECRET, 'owner/repo', 8, { challenge, solution }))
+      .toBe('CHALLENGE_INVALID');
+  });
+
+  it('rejects challenges signed with another secret', async () => {
+    const { challenge } = await issueChallenge('other-secret', 'owner/repo', 4);
+    const solution = await solve(challenge, 4);
+
+    expect(await checkProofOfWork(env, SECRET, 'owner/repo', 4, { challenge, solution }))
+      .toBe('CHALLENGE_INVALID');
+  });
+
+  it('raises difficulty as the repo nears its rate limit', () => {
+    expect(getChallengeDifficulty(16, 0.1)).toBe(16);
+    expect(getChallengeDifficulty(16, 0.5)).toBe(18);
+    expect(getChallengeDifficulty(16, 0.9)).toBe(20);
+    expect(getChallengeDifficulty(18, 1)).toBe(20);
+  });
+});
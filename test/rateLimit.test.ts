@@ -259,6 +259,25 @@ describe('Rate Limit Middleware', () => {
       );
     });
 
+    it('reads repo from the payload part of multipart bodies', async () => {
+      mockKv.get.mockResolvedValue('0');
+      const { fetch } = createTestApp();
+
+      const form = new FormData();
+      form.append('payload', JSON.stringify({ repo: 'owner/multipart-repo', title: 'test' }));
+      const req = new Request('http://localhost/feedback', {
+        method: 'POST',
+        body: form,
+      });
+      await fetch(req);
+
+      expect(mockKv.put).toHaveBeenCalledWith(
+        expect.stringContaining('owner/multipart-repo'),
+        expect.any(String),
+        expect.any(Object)
+      );
+    });
+
     it('skips when KV is not configured', async () => {
       const { fetch } = createTestApp(undefined);
 
@@ -0,0 +1,160 @@
+import { describe, it, expect, vi, beforeEach } from 'vitest';
+
+const mockGetRepoFile = vi.fn();
+
+vi.mock('../src/lib/github', () => ({
+  getRepoFile: (...args: unknown[]) => mockGetRepoFile(...args),
+}));
+
+const { getRepoConfig } = await import('../src/lib/repoConfig');
+
+describe('getRepoConfig', () => {
+  // Each test uses its own repo name so the per-isolate cache doesn't leak between tests
+  let repoIndex = 0;
+  let repo: string;
+
+  beforeEach(() => {
+    vi.clearAllMocks();
+    repo = `repo-${++repoIndex}`;
+  });
+
+  it('returns defaults when the repo has no config file', async () => {
+    mockGetRepoFile.mockResolvedValue(null);
+
+    const config = await getRepoConfig('token', 'owner', repo);
+
+    expect(config).toEqual({
+      categoryLabels: { bug: 'bug', feature: 'enhancement', question: 'question' },
+      labels: [],
+      allowedTags: [],
+      assignees: [],
+      titlePrefix: '',
+      screenshotBranch: 'bugdrop-assets',
+      screenshotRetentionDays: 0,
+      detectDuplicates: true,
+      showMaintainerComments: false,
+      notifications: [],
+      challengeDifficulty: 0,
+      spam: { bannedWords: [], bannedPatterns: [], labelThreshold: 50, rejectThreshold: 100 },
+      redaction: { enabled: true, patterns: [] },
+    });
+    expect(mockGetRepoFile).toHaveBeenCalledWith('token', 'owner', repo, '.bugdrop.yml');
+    expect(mockGetRepoFile).toHaveBeenCalledWith('token', 'owner', repo, '.github/bugdrop.yml');
+  });
+
+  it('parses settings from .bugdrop.yml', async () => {
+    mockGetRepoFile.mockResolvedValueOnce([
+      'categoryLabels:',
+      '  feature: feature-request',
+      'labels: [triage]',
+      'allowedTags: [enterprise, beta]',
+      'assignees:',
+      '  - octocat',
+      'titlePrefix: "[Feedback] "',
+      'maxScreenshotSizeMB: 2',
+      'screenshotBranch: feedback/screenshots',
+      'screenshotRetentionDays: 30',
+      'allowedOrigins:',
+      '  - https://app.example.com',
+      'detectDuplicates: false',
+      'showMaintainerComments: true',
+      'challengeDifficulty: 12',
+      'notifications:',
+      '  - url: https://hooks.slack.com/services/T000/B000/XXXX',
+      '    format: slack',
+      '  - url: https://example.com/bugdrop',
+      '  - url: http://insecure.example.com/hook',
+      '  - url: https://example.com/teams',
+      '    format: teams',
+      'spam:',
+      '  bannedWords: [casino]',
+      '  bannedPatterns: ["buy (cheap|now)", "(unclosed", "(a+)+$", "((x*y)?z)*"]',
+      '  labelThreshold: 40',
+      'redaction:',
+      '  patterns: ["ACME-\\\\d+", "", "\\\\d*", "(\\\\w+\\\\s?)+@"]',
+    ].join('\n'));
+
+    const config = await getRepoConfig('token', 'owner', repo);
+
+    expect(config).toEqual({
+      categoryLabels: { bug: 'bug', feature: 'feature-request', question: 'question' },
+      labels: ['triage'],
+      allowedTags: ['enterprise', 'beta'],
+      assignees: ['octocat'],
+      titlePrefix: '[Feedback] ',
+      maxScreenshotSizeMB: 2,
+      screenshotBranch: 'feedback/screenshots',
+      screenshotRetentionDays: 30,
+      allowedOrigins: ['https://app.example.com'],
+      detectDuplicates: false,
+      showMaintainerComments: true,
+      notifications: [
+        { url: 'https://hooks.slack.com/services/T000/B000/XXXX', format: 'slack' },
+        { url: 'https://example.com/bugdrop', format: 'generic' },
+      ],
+      challengeDifficulty: 12,
+      spam: { bannedWords: ['casino'], bannedPatterns: ['buy (cheap|now)'], labelThreshold: 40, rejectThreshold: 100 },
+      redaction: { enabled: true, patterns: ['ACME-\\d+'] },
+    });
+    expect(mockGetRepoFile).toHaveBeenCalledTimes(1);
+  });
+
+  it('falls back to .github/bugdrop.yml', async () => {
+    mockGetRepoFile
+      .mockResolvedValueOnce(null)
+      .mockResolvedValueOnce('titlePrefix: "[UX] "');
+
+    const config = await getRepoConfig('token', 'owner', repo);
+
+    expect(config.titlePrefix).toBe('[UX] ');
+  });
+
+  it('ignores malformed settings', async () => {
+    mockGetRepoFile.mockResolvedValueOnce(
+      'labels: triage\nassignees: [1, 2]\nmaxScreenshotSizeMB: -1\nscreenshotBranch: "../main"'
+    );
+
+    const config = await getRepoConfig('token', 'owner', repo);
+
+    expect(config.labels).toEqual([]);
+    expect(config.assignees).toEqual([]);
+    expect(config.maxScreenshotSizeMB).toBeUndefined();
+    expect(config.screenshotBranch).toBe('bugdrop-assets');
+  });
+
+  it('uses defaults when the config file is invalid YAML', async () => {
+    mockGetRepoFile.mockResolvedValueOnce('labels: [unclosed');
+
+    const config = await getRepoConfig('token', 'owner', repo);
+
+    expect(config.labels).toEqual([]);
+  });
+
+  it('throws when the config file cannot be fetched, and retries after a few seconds', async () => {
+    vi.spyOn(console, 'error').mockImplementation(() => {});
+    const now = vi.spyOn(Date, 'now').mockReturnValue(1_000_000);
+    mockGetRepoFile.mockRejectedValueOnce(new Error('Failed to read .bugdrop.yml: 502'));
+
+    await expect(getRepoConfig('token', 'owner', repo)).rejects.toThrow('502');
+    // The failure is remembered briefly rather than cached as the defaults
+    await expect(getRepoConfig('token', 'owner', repo)).rejects.toThrow('502');
+    expect(mockGetRepoFile).toHaveBeenCalledTimes(1);
+
+    now.mockReturnValue(1_000_000 + 6000);
+    mockGetRepoFile.mockResolvedValueOnce('titlePrefix: "[Back] "');
+    const config = await getRepoConfig('token', 'owner', repo);
+
+    expect(config.titlePrefix).toBe('[Back] ');
+    now.mockRestore();
+  });
+
+  it('caches the config per repo', async () => {
+    mockGetRepoFile.mockResolvedValue('titlePrefix: "[Cached] "');
+
+    await getRepoConfig('token', 'owner', repo);
+    const config = await getRepoConfig('token', 'owner', repo);
+
+    expect(config.titlePrefix).toBe('[Cached] ');
+    expect(mockGetRepoFile).toHaveBeenCalledTimes(1);
+  });
+});
@@ -0,0 +1,170 @@
+import { describe, it, expect, vi, beforeEach } from 'vitest';
+import type { Env } from '../src/types';
+
+const mockListInstallationIds = vi.fn();
+const mockListInstallationRepos = vi.fn();
+const mockListBranchFiles = vi.fn();
+const mockDeleteBranchFiles = vi.fn();
+const mockListClosedIssues = vi.fn();
+const mockListRepoComments = vi.fn();
+const mockGetRepoConfig = vi.fn();
+
+vi.mock('../src/lib/github', () => ({
+  listInstallationIds: (...args: unknown[]) => mockListInstallationIds(...args),
+  listInstallationRepos: (...args: unknown[]) => mockListInstallationRepos(...args),
+  listClosedIssues: (...args: unknown[]) => mockListClosedIssues(...args),
+  listRepoComments: (...args: unknown[]) => mockListRepoComments(...args),
+}));
+
+vi.mock('../src/lib/assetBranch', () => ({
+  listBranchFiles: (...args: unknown[]) => mockListBranchFiles(...args),
+  deleteBranchFiles: (...args: unknown[]) => mockDeleteBranchFiles(...args),
+}));
+
+vi.mock('../src/lib/repoConfig', () => ({
+  getRepoConfig: (...args: unknown[]) => mockGetRepoConfig(...args),
+}));
+
+const { cleanupScreenshots } = await import('../src/lib/screenshotCleanup');
+
+const NOW = Date.parse('2025-06-01T00:00:00Z');
+const DAY = 24 * 60 * 60 * 1000;
+
+// Screenshots uploaded 200, 150, 120 and 10 days ago
+const oldClosed = `.bugdrop/screenshots/${NOW - 200 * DAY}.png`;
+const oldOpen = `.bugdrop/screenshots/${NOW - 150 * DAY}.png`;
+const oldRepeat = `.bugdrop/screenshots/${NOW - 120 * DAY}.png`;
+const recentClosed = `.bugdrop/screenshots/${NOW - 10 * DAY}.webp`;
+
+const files = {
+  commitSha: 'commit-sha',
+  treeSha: 'tree-sha',
+  paths: [oldClosed, oldOpen, oldRepeat, recentClosed, '.bugdrop/screenshots/README.md'],
+};
+
+const rawUrl = (path: string) => `![Screenshot](https://raw.githubusercontent.com/owner/repo/bugdrop-assets/${path})`;
+
+describe('cleanupScreenshots', () => {
+  beforeEach(() => {
+    vi.clearAllMocks();
+    vi.spyOn(console, 'log').mockImplementation(() => {});
+    vi.spyOn(console, 'warn').mockImplementation(() => {});
+    mockListInstallationIds.mockResolvedValue([7]);
+    mockListInstallationRepos.mockResolvedValue([{ owner: 'owner', repo: 'repo', token: 'token' }]);
+    mockGetRepoConfig.mockResolvedValue({ screenshotBranch: 'bugdrop-assets', screenshotRetentionDays: 90 });
+    mockListBranchFiles.mockResolvedValue(files);
+    mockListClosedIssues.mockImplementation(async (_t: string, _o: string, _r: string, label: string) =>
+      label === 'bugdrop'
+        ? [{ number: 1, body: rawUrl(oldClosed) }, { number: 3, body: rawUrl(recentClosed) }]
+        : [{ number: 4, body: null }]
+    );
+    // Repeat report of issue 1, and one on an issue that's still open
+    mockListRepoComments.mockResolvedValue([
+      { issue_url: 'https://api.github.com/repos/owner/repo/issues/1', body: rawUrl(oldRepeat) },
+      { issue_url: 'https://api.github.com/repos/owner/repo/issues/2', body: rawUrl(oldOpen) },
+    ]);
+    mockDeleteBranchFiles.mockResolvedValue(undefined);
+  });
+
+  it('deletes old screenshots of closed issues and their repeat reports in one commit', async () => {
+    const reports = await cleanupScreenshots({} as Env, NOW);
+
+    expect(reports).toEqual([{ repo: 'owner/repo', expired: 3, deleted: [oldClosed, oldRepeat], dryRun: false }]);
+    expect(mockListBranchFiles).toHaveBeenCalledWith('token', 'owner', 'repo', 'bugdrop-assets', '.bugdrop/screenshots');
+    // Nothing older than the oldest expired screenshot is read
+    const since = new Date(NOW - 200 * DAY).toISOString();
+    expect(mockListClosedIssues).toHaveBeenCalledWith('token', 'owner', 'repo', 'bugdrop', since, 5);
+    expect(mockListRepoComments).toHaveBeenCalledWith('token', 'owner', 'repo', since, 5);
+    expect(mockDeleteBranchFiles).toHaveBeenCalledTimes(1);
+    expect(mockDeleteBranchFiles).toHaveBeenCalledWith(
+      'token',
+      'owner',
+      'repo',
+      'bugdrop-assets',
+      files,
+      [oldClosed, oldRepeat],
+      'Remove 2 expired BugDrop screenshots'
+    );
+  });
+
+  it('only reports what would be deleted in dry-run mode', async () => {
+    const reports = await cleanupScreenshots({ SCREENSHOT_CLEANUP_DRY_RUN: 'true' } as Env, NOW);
+
+    expect(reports[0]).toMatchObject({ deleted: [oldClosed, oldRepeat], dryRun: true });
+    expect(mockDeleteBranchFiles).not.toHaveBeenCalled();
+  });
+
+  it('skips repos that keep screenshots forever', async () => {
+    mockGetRepoConfig.mockResolvedValue({ screenshotBranch: 'bugdrop-assets', screenshotRetentionDays: 0 });
+
+    const reports = await cleanupScreenshots({} as Env, NOW);
+
+    expect(reports[0].deleted).toEqual([]);
+    expect(mockListBranchFiles).not.toHaveBeenCalled();
+  });
+
+  it('does not look up issues when nothing has expired', async () => {
+    mockListBranchFiles.mockResolvedValue({ ...files, paths: [recentClosed] });
+
+    await cleanupScreenshots({} as Env, NOW);
+
+    expect(mockListClosedIssues).not.toHaveBeenCalled();
+    expect(mockDeleteBranchFiles).not.toHaveBeenCalled();
+  });
+
+  it('skips repos without a screenshot branch', async () => {
+    mockListBranchFiles.mockResolvedValue(null);
+
+    const reports = await cleanupScreenshots({} as Env, NOW);
+
+    expect(reports[0]).toMatchObject({ expired: 0, deleted: [] });
+  });
+
+  it('keeps going when one repo fails', async () => {
+    vi.spyOn(console, 'error').mockImplementation(() => {});
+    mockListInstallationRepos.mockResolvedValue([
+      { owner: 'owner', repo: 'broken', token: 'token' },
+      { owner: 'owner', repo: 'repo', token: 'token' },
+    ]);
+    mockDeleteBranchFiles
+      .mockRejectedValueOnce(new Error('Failed to update branch bugdrop-assets: 422'))
+      .mockResolvedValueOnce(undefined);
+
+    const reports = await cleanupScreenshots({} as Env, NOW);
+
+    expect(reports[0]).toMatchObject({ repo: 'owner/broken', deleted: [], error: expect.stringContaining('422') });
+    expect(reports[1]).toMatchObject({ repo: 'owner/repo', deleted: [oldClosed, oldRepeat] });
+  });
+
+  it('handles a batch of repos per run and continues from the saved cursor', async () => {
+    const repos = (installation: number, count: number) => Array.from({ length: count }, (_, i) => ({
+      owner: `org${installation}`,
+      repo: `repo-${i}`,
+      token: 'token',
+    }));
+    mockListInstallationIds.mockResolvedValue([1, 2]);
+    mockListInstallationRepos.mockImplementation(async (_env: Env, id: number) => repos(id, id === 1 ? 8 : 6));
+    mockGetRepoConfig.mockResolvedValue({ screenshotBranch: 'bugdrop-assets', screenshotRetentionDays: 0 });
+    const stored = new Map<string, string>();
+    const state = {
+      get: vi.fn(async (key: string) => (stored.has(key) ? JSON.parse(stored.get(key)!) : null)),
+      put: vi.fn(async (key: string, value: string) => { stored.set(key, value); }),
+    };
+    const env = { STATE: state as unknown as KVNamespace } as Env;
+
+    const first = await cleanupScreenshots(env, NOW);
+    expect(first.map((report) => report.repo)).toEqual([
+      ...repos(1, 8).map(({ owner, repo }) => `${owner}/${repo}`),
+      'org2/repo-0',
+      'org2/repo-1',
+    ]);
+    expect(JSON.parse(stored.get('cleanup:cursor')!)).toEqual({ installation: 1, offset: 2 });
+
+    const second = await cleanupScreenshots(env, NOW);
+    expect(second.map((report) => report.repo)).toEqual(
+      ['org2/repo-2', 'org2/repo-3', 'org2/repo-4', 'org2/repo-5']
+    );
+    // Back to the first installation next time
+    expect(JSON.parse(stored.get('cleanup:cursor')!)).toEqual({ installation: 0, offset: 0 });
+  });
+});
@@ -0,0 +1,153 @@
+import { describe, it, expect, vi, beforeAll, afterAll, beforeEach } from 'vitest';
+import { Miniflare } from 'miniflare';
+import type { Env } from '../src/types';
+
+const mockUploadScreenshotAsAsset = vi.fn();
+const mockUploadAttachmentAsAsset = vi.fn();
+
+vi.mock('../src/lib/assetBranch', () => ({
+  uploadScreenshotAsAsset: (...args: unknown[]) => mockUploadScreenshotAsAsset(...args),
+  uploadAttachmentAsAsset: (...args: unknown[]) => mockUploadAttachmentAsAsset(...args),
+}));
+
+const { saveScreenshot, loadScreenshot, saveAttachment, loadAttachment } = await import('../src/lib/screenshotStorage');
+
+const target = {
+  token: 'token',
+  owner: 'owner',
+  repo: 'repo',
+  branch: 'bugdrop-assets',
+  baseUrl: 'https://bugdrop.example.com',
+};
+const PNG = 'data:image/png;base64,iVBORw0KGgo=';
+
+// Local R2 bucket and KV namespace from Miniflare
+let mf: Miniflare;
+let bucket: R2Bucket;
+let kv: KVNamespace;
+
+beforeAll(async () => {
+  mf = new Miniflare({
+    modules: true,
+    script: 'export default { fetch: () => new Response(null) }',
+    r2Buckets: ['SCREENSHOTS'],
+    kvNamespaces: ['STATE'],
+  });
+  bucket = await mf.getR2Bucket('SCREENSHOTS') as unknown as R2Bucket;
+  kv = await mf.getKVNamespace('STATE') as unknown as KVNamespace;
+});
+
+afterAll(async () => {
+  await mf.dispose();
+});
+
+beforeEach(() => {
+  vi.clearAllMocks();
+  vi.spyOn(console, 'error').mockImplementation(() => {});
+});
+
+function idFrom(url: string): string {
+  expect(url).toMatch(/^https:\/\/bugdrop\.example\.com\/api\/screenshots\/[0-9a-f]{32}$/);
+  return url.split('/').pop()!;
+}
+
+async function readBytes(body: ReadableStream | ArrayBuffer): Promise<number[]> {
+  return Array.from(new Uint8Array(await new Response(body).arrayBuffer()));
+}
+
+describe('screenshot storage', () => {
+  it('commits to the repo by default', async () => {
+    mockUploadScreenshotAsAsset.mockResolvedValue('https://raw.githubusercontent.com/owner/repo/main/a.png');
+
+    const url = await saveScreenshot({} as Env, target, PNG);
+
+    expect(url).toBe('https://raw.githubusercontent.com/owner/repo/main/a.png');
+    expect(mockUploadScreenshotAsAsset).toHaveBeenCalledWith('token', 'owner', 'repo', PNG, 'bugdrop-assets');
+  });
+
+  it('stores screenshots in R2', async () => {
+    const env = { SCREENSHOT_STORAGE: 'r2', SCREENSHOTS: bucket } as Env;
+    const blob = new Blob([new Uint8Array([1, 2, 3])], { type: 'image/webp' });
+
+    const id = idFrom(await saveScreenshot(env, target, blob));
+    const stored = await loadScreenshot(env, id);
+
+    expect(stored?.contentType).toBe('image/webp');
+    expect(await readBytes(stored!.body)).toEqual([1, 2, 3]);
+    expect(mockUploadScreenshotAsAsset).not.toHaveBeenCalled();
+  });
+
+  it('stores screenshots in KV', async () => {
+    const env = { SCREENSHOT_STORAGE: 'kv', STATE: kv } as Env;
+
+    const id = idFrom(await saveScreenshot(env, target, PNG));
+    const stored = await loadScreenshot(env, id);
+
+    expect(stored?.contentType).toBe('image/png');
+    expect(await readBytes(stored!.body)).toEqual([0x89, 0x50, 0x4e, 0x47, 0x0d, 0x0a, 0x1a, 0x0a]);
+  });
+
+  it('falls back to KV when the repo commit fails and the fallback is enabled', async () => {
+    mockUploadScreenshotAsAsset.mockRejectedValue(new Error('403 Resource not accessible by integration'));
+    const env = { SCREENSHOT_FALLBACK: 'kv', STATE: kv } as Env;
+
+    const id = idFrom(await saveScreenshot(env, target, PNG));
+
+    expect(await loadScreenshot(env, id)).not.toBeNull();
+  });
+
+  it('returns the repo error instead of falling back to KV by default', async () => {
+    mockUploadScreenshotAsAsset.mockRejectedValue(new Error('403 Resource not accessible by integration'));
+
+    await expect(saveScreenshot({ STATE: kv } as Env, target, PNG))
+      .rejects.toThrow('403 Resource not accessible by integration');
+  });
+
+  it('fails when no backend can store the screenshot', async () => {
+    vi.spyOn(console, 'warn').mockImplementation(() => {});
+
+    await expect(saveScreenshot({ SCREENSHOT_STORAGE: 'r2' } as Env, target, PNG))
+      .rejects.toThrow('No screenshot storage available');
+  });
+
+  it('stores unexpected image types as PNG', async () => {
+    const env = { SCREENSHOT_STORAGE: 'kv', STATE: kv } as Env;
+
+    const id = idFrom(await saveScreenshot(env, target, 'data:image/svg+xml;base64,PHN2Zy8+'));
+
+    expect((await loadScreenshot(env, id))?.contentType).toBe('image/png');
+  });
+
+  it('returns null for unknown or malformed IDs', async () => {
+    const env = { SCREENSHOTS: bucket, STATE: kv } as Env;
+
+    expect(await loadScreenshot(env, '0'.repeat(32))).toBeNull();
+    expect(await loadScreenshot(env, '../config')).toBeNull();
+  });
+});
+
+describe('attachment storage', () => {
+  const file = new File(['error at line 1'], 'app.log', { type: 'text/plain' });
+
+  it('commits to the repo by default', async () => {
+    mockUploadAttachmentAsAsset.mockResolvedValue('https://raw.githubusercontent.com/owner/repo/main/app.log');
+
+    expect(await saveAttachment({} as Env, target, file)).toBe('https://raw.githubusercontent.com/owner/repo/main/app.log');
+    expect(mockUploadAttachmentAsAsset).toHaveBeenCalledWith('token', 'owner', 'repo', file, 'bugdrop-assets');
+  });
+
+  it.each([
+    ['R2', { SCREENSHOT_STORAGE: 'r2' }],
+    ['KV', { SCREENSHOT_STORAGE: 'kv' }],
+  ])('stores attachments in %s with their name and type', async (_name, vars) => {
+    const env = { ...vars, SCREENSHOTS: bucket, STATE: kv } as Env;
+
+    const url = await saveAttachment(env, target, file);
+    expect(url).toMatch(/^https:\/\/bugdrop\.example\.com\/api\/attachments\/[0-9a-f]{32}$/);
+    const stored = await loadAttachment(env, url.split('/').pop()!);
+
+    expect(stored).toMatchObject({ contentType: 'text/plain', filename: 'app.log' });
+    expect(await new Response(stored!.body).text()).toBe('error at line 1');
+    expect(await loadScreenshot(env, url.split('/').pop()!)).toBeNull();
+  });
+});
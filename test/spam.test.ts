@@ -0,0 +1,97 @@
+import { describe, it, expect, vi } from 'vitest';
+import type { Env, FeedbackPayload, SpamConfig } from '../src/types';
+import { scoreSubmission } from '../src/lib/spam';
+
+const env = {} as Env;
+
+const config: SpamConfig = {
+  bannedWords: ['casino'],
+  bannedPatterns: ['buy (cheap|now)'],
+  labelThreshold: 50,
+  rejectThreshold: 100,
+};
+
+function payload(overrides: Partial<FeedbackPayload> = {}): FeedbackPayload {
+  return {
+    repo: 'owner/repo',
+    title: 'Save button does nothing',
+    description: `Clicking save on the settings page has no effect (${Math.random()})`,
+    formFillMs: 20000,
+    metadata: {
+      url: 'https://example.com/settings',
+      userAgent: 'Mozilla/5.0',
+      viewport: { width: 1280, height: 800 },
+      timestamp: '2025-01-15T12:00:00Z',
+    },
+    ...overrides,
+  };
+}
+
+describe('scoreSubmission', () => {
+  it('accepts ordinary reports', async () => {
+    const verdict = await scoreSubmission(env, 'owner', 'repo', payload(), config);
+
+    expect(verdict).toEqual({ score: 0, reasons: [], action: 'accept' });
+  });
+
+  it('rejects a filled-in honeypot', async () => {
+    const verdict = await scoreSubmission(env, 'owner', 'repo', payload({ honeypot: 'x' }), config);
+
+    expect(verdict.action).toBe('reject');
+    expect(verdict.reasons).toEqual(['honeypot field filled']);
+  });
+
+  it('scores forms filled in too quickly', async () => {
+    const verdict = await scoreSubmission(env, 'owner', 'repo', payload({ formFillMs: 800 }), config);
+
+    expect(verdict.score).toBe(40);
+    expect(verdict.action).toBe('accept');
+  });
+
+  it('scores link-heavy descriptions', async () => {
+    const verdict = await scoreSubmission(env, 'owner', 'repo', payload({
+      description: 'https://a.example https://b.example https://c.example',
+    }), config);
+
+    expect(verdict.reasons).toEqual(['3 links in 7 words']);
+  });
+
+  it('labels banned words and patterns', async () => {
+    const verdict = await scoreSubmission(env, 'owner', 'repo', payload({
+      title: 'Online CASINO',
+    }), config);
+    expect(verdict).toMatchObject({ score: 50, action: 'label' });
+
+    const both = await scoreSubmission(env, 'owner', 'repo', payload({
+      title: 'Casino chips, buy now',
+    }), config);
+    expect(both).toMatchObject({ score: 100, action: 'reject' });
+  });
+
+  it('scores descriptions repeated within the window', async () => {
+    const repeated = payload({ description: 'Same   text\nevery time' });
+
+    await scoreSubmission(env, 'owner', 'repo', repeated, config);
+    await scoreSubmission(env, 'owner', 'repo', { ...repeated, description: 'same text every time' }, config);
+    const third = await scoreSubmission(env, 'owner', 'repo', repeated, config);
+
+    expect(third.reasons).toEqual(['description already submitted 2 times']);
+    // Counted per repo
+    const elsewhere = await scoreSubmission(env, 'owner', 'other', repeated, config);
+    expect(elsewhere.score).toBe(0);
+  });
+
+  it('shares repeat counts through STATE KV', async () => {
+    const kv = {
+      get: vi.fn().mockResolvedValue('5'),
+      put: vi.fn().mockResolvedValue(undefined),
+    };
+    const kvEnv = { STATE: kv as unknown as KVNamespace } as Env;
+
+    const verdict = await scoreSubmission(kvEnv, 'Owner', 'Repo', payload(), config);
+
+    expect(verdict.reasons).toEqual(['description already submitted 5 times']);
+    expect(kv.get).toHaveBeenCalledWith(expect.stringMatching(/^spam:owner\/repo:[0-9a-f]{24}$/));
+    expect(kv.put).toHaveBeenCalledWith(expect.any(String), '6', { expirationTtl: 86400 });
+  });
+});
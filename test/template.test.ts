@@ -0,0 +1,44 @@
+import { describe, it, expect } from 'vitest';
+import { renderTemplate } from '../src/lib/template';
+
+describe('renderTemplate', () => {
+  const context = {
+    description: 'Button does nothing',
+    submitter: { name: 'Jane Doe', email: '' },
+    metadata: { browser: 'Chrome 120' },
+    elementSelector: '#submit',
+    tags: [],
+  };
+
+  it('replaces placeholders, including nested paths', () => {
+    expect(renderTemplate('{{description}} in {{ metadata.browser }} by {{submitter.name}}', context))
+      .toBe('Button does nothing in Chrome 120 by Jane Doe');
+  });
+
+  it('renders missing values as empty strings', () => {
+    expect(renderTemplate('[{{missing}}][{{metadata.os.name}}]', context)).toBe('[][]');
+  });
+
+  it('renders {{#if}} blocks when the value is truthy', () => {
+    expect(renderTemplate('{{#if elementSelector}}Element: {{elementSelector}}{{/if}}', context))
+      .toBe('Element: #submit');
+  });
+
+  it('renders {{else}} branches when the value is falsy', () => {
+    expect(renderTemplate('{{#if submitter.email}}{{submitter.email}}{{else}}anonymous{{/if}}', context))
+      .toBe('anonymous');
+  });
+
+  it('treats empty arrays as falsy', () => {
+    expect(renderTemplate('{{#if tags}}tagged{{else}}untagged{{/if}}', context)).toBe('untagged');
+  });
+
+  it('supports nested blocks', () => {
+    const template = '{{#if elementSelector}}A{{#if submitter.email}}B{{else}}C{{/if}}D{{/if}}';
+    expect(renderTemplate(template, context)).toBe('ACD');
+  });
+
+  it('keeps unknown tags verbatim', () => {
+    expect(renderTemplate('{{#each items}}x{{/each}}', context)).toBe('{{#each items}}x{{/each}}');
+  });
+});
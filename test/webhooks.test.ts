@@ -0,0 +1,200 @@
+import { describe, it, expect, vi, beforeEach } from 'vitest';
+import type { Env } from '../src/types';
+
+const mockForgetInstallation = vi.fn();
+const mockInvalidateRepoConfig = vi.fn();
+
+vi.mock('../src/lib/installationCache', () => ({
+  forgetInstallation: (...args: unknown[]) => mockForgetInstallation(...args),
+}));
+
+vi.mock('../src/lib/repoConfig', () => ({
+  invalidateRepoConfig: (...args: unknown[]) => mockInvalidateRepoConfig(...args),
+}));
+
+const { default: webhooks } = await import('../src/routes/webhooks');
+
+const SECRET = 'test-webhook-secret';
+
+// Trimmed from recorded GitHub deliveries
+const installationRepositoriesPayload = {
+  action: 'removed',
+  installation: { id: 4242, account: { login: 'testowner' } },
+  repository_selection: 'selected',
+  repositories_added: [],
+  repositories_removed: [
+    { id: 1, name: 'testrepo', full_name: 'testowner/testrepo', private: false },
+  ],
+  sender: { login: 'testowner' },
+};
+
+const installationDeletedPayload = {
+  action: 'deleted',
+  installation: { id: 4242, account: { login: 'testowner' } },
+  repositories: [
+    { id: 1, name: 'testrepo', full_name: 'testowner/testrepo', private: false },
+    { id: 2, name: 'other', full_name: 'testowner/other', private: true },
+  ],
+  sender: { login: 'testowner' },
+};
+
+const issueClosedPayload = {
+  action: 'closed',
+  issue: {
+    number: 42,
+    html_url: 'https://github.com/testowner/testrepo/issues/42',
+    title: 'Button does nothing',
+    state: 'closed',
+    state_reason: 'completed',
+    labels: [{ id: 1, name: 'bug' }, { id: 2, name: 'bugdrop' }],
+    updated_at: '2025-01-16T12:00:00Z',
+    closed_at: '2025-01-16T12:00:00Z',
+  },
+  repository: { id: 1, name: 'testrepo', full_name: 'testowner/testrepo', owner: { login: 'testowner' } },
+  installation: { id: 4242 },
+  sender: { login: 'maintainer' },
+};
+
+async function sign(body: string, secret = SECRET): Promise<string> {
+  const key = await crypto.subtle.importKey(
+    'raw',
+    new TextEncoder().encode(secret),
+    { name: 'HMAC', hash: 'SHA-256' },
+    false,
+    ['sign']
+  );
+  const digest = await crypto.subtle.sign('HMAC', key, new TextEncoder().encode(body));
+  const hex = Array.from(new Uint8Array(digest), (b) => b.toString(16).padStart(2, '0')).join('');
+  return `sha256=${hex}`;
+}
+
+describe('POST /github webhooks', () => {
+  let mockKv: { put: ReturnType<typeof vi.fn>; delete: ReturnType<typeof vi.fn> };
+  let env: Env;
+
+  beforeEach(() => {
+    vi.clearAllMocks();
+    mockKv = { put: vi.fn().mockResolvedValue(undefined), delete: vi.fn().mockResolvedValue(undefined) };
+    env = {
+      GITHUB_APP_ID: 'test-app-id',
+      GITHUB_PRIVATE_KEY: 'test-private-key',
+      GITHUB_WEBHOOK_SECRET: SECRET,
+      ENVIRONMENT: 'test',
+      ALLOWED_ORIGINS: '*',
+      GITHUB_APP_NAME: 'test-bugdrop-app',
+      MAX_SCREENSHOT_SIZE_MB: '5',
+      ASSETS: {} as Fetcher,
+      STATE: mockKv as unknown as KVNamespace,
+    };
+  });
+
+  async function deliver(event: string, payload: unknown, signature?: string) {
+    const body = JSON.stringify(payload);
+    return webhooks.fetch(new Request('http://localhost/github', {
+      method: 'POST',
+      headers: {
+        'Content-Type': 'application/json',
+        'X-GitHub-Event': event,
+        'X-Hub-Signature-256': signature ?? await sign(body),
+      },
+      body,
+    }), env);
+  }
+
+  it('rejects deliveries with a bad signature', async () => {
+    const res = await deliver('issues', issueClosedPayload, await sign('{}'));
+
+    expect(res.status).toBe(401);
+    expect(mockKv.put).not.toHaveBeenCalled();
+  });
+
+  it('rejects deliveries signed with another secret', async () => {
+    const body = JSON.stringify(issueClosedPayload);
+    const res = await deliver('issues', issueClosedPayload, await sign(body, 'wrong-secret'));
+
+    expect(res.status).toBe(401);
+  });
+
+  it('returns 501 when no webhook secret is configured', async () => {
+    env.GITHUB_WEBHOOK_SECRET = undefined;
+
+    const res = await deliver('issues', issueClosedPayload);
+
+    expect(res.status).toBe(501);
+  });
+
+  it('invalidates cached lookups on installation_repositories events', async () => {
+    const res = await deliver('installation_repositories', installationRepositoriesPayload);
+
+    expect(res.status).toBe(200);
+    expect(await res.json()).toEqual({
+      event: 'installation_repositories',
+      action: 'removed',
+      result: 'invalidated',
+    });
+    expect(mockForgetInstallation).toHaveBeenCalledWith(env, 4242, ['testowner/testrepo']);
+    expect(mockInvalidateRepoConfig).toHaveBeenCalledWith('testowner', 'testrepo');
+  });
+
+  it('invalidates every repo of a deleted installation', async () => {
+    await deliver('installation', installationDeletedPayload);
+
+    expect(mockForgetInstallation).toHaveBeenCalledWith(
+      env,
+      4242,
+      ['testowner/testrepo', 'testowner/other']
+    );
+    expect(mockInvalidateRepoConfig).toHaveBeenCalledWith('testowner', 'other');
+  });
+
+  it('records closed bugdrop issues', async () => {
+    const res = await deliver('issues', issueClosedPayload);
+
+    expect((await res.json()).result).toBe('recorded');
+    expect(mockKv.put).toHaveBeenCalledWith(
+      'closed:testowner/testrepo#42',
+      JSON.stringify({
+        repo: 'testowner/testrepo',
+        issueNumber: 42,
+        state: 'closed',
+        stateReason: 'completed',
+        labels: ['bug', 'bugdrop'],
+        updatedAt: '2025-01-16T12:00:00Z',
+        closedAt: '2025-01-16T12:00:00Z',
+      }),
+      { expirationTtl: 180 * 24 * 60 * 60 }
+    );
+  });
+
+  it('forgets the recorded status when an issue is reopened', async () => {
+    const payload = {
+      ...issueClosedPayload,
+      action: 'reopened',
+      issue: { ...issueClosedPayload.issue, state: 'open', state_reason: 'reopened', closed_at: null },
+    };
+
+    const res = await deliver('issues', payload);
+
+    expect((await res.json()).result).toBe('cleared');
+    expect(mockKv.delete).toHaveBeenCalledWith('closed:testowner/testrepo#42');
+  });
+
+  it('ignores closed issues without the bugdrop label', async () => {
+    const payload = {
+      ...issueClosedPayload,
+      issue: { ...issueClosedPayload.issue, labels: [{ id: 1, name: 'bug' }] },
+    };
+
+    const res = await deliver('issues', payload);
+
+    expect((await res.json()).result).toBe('ignored');
+    expect(mockKv.put).not.toHaveBeenCalled();
+  });
+
+  it('ignores other events', async () => {
+    const res = await deliver('ping', { zen: 'Keep it logically awesome.', hook_id: 1 });
+
+    expect(res.status).toBe(200);
+    expect((await res.json()).result).toBe('ignored');
+  });
+});